@@ -0,0 +1,14 @@
+"use client";
+
+import { SketchHistory } from '@/components/SketchHistory';
+import React from 'react';
+
+function HistoryPage() {
+  return (
+    <div className="min-h-screen w-full px-4 py-8 lg:px-10 bg-gradient-to-b from-slate-100 to-slate-300">
+      <SketchHistory />
+    </div>
+  );
+}
+
+export default HistoryPage;
@@ -2,6 +2,7 @@
 
 import { AdvancedSketchify } from '@/components/AdvancedSketchify';
 import React, { useState } from 'react';
+import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -33,7 +34,13 @@ function MainApp() {
   
   
   return (
-    <div className="h-screen w-screen flex items-center justify-center px-4 lg:px-10 bg-gradient-to-b from-slate-100 to-slate-300">
+    <div className="relative h-screen w-screen flex items-center justify-center px-4 lg:px-10 bg-gradient-to-b from-slate-100 to-slate-300">
+      <Button variant="outline" size="sm" className="absolute top-4 right-4 gap-2" asChild>
+        <Link href="/app/history">
+          <History className="h-4 w-4" />
+          History
+        </Link>
+      </Button>
      
                     <AdvancedSketchify />
     
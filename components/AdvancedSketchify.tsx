@@ -1,13 +1,45 @@
 "use client";
 
 import React, { useState, useCallback, useRef, useEffect } from "react";
-import { useSketchProcessing } from "@/hooks/useSketchProcessing";
+import { useSketchProcessing, resolveProcessingMode } from "@/hooks/useSketchProcessing";
+import { useOptionsHistory } from "@/hooks/useOptionsHistory";
+import { useFileUpload } from "@/contexts/file-upload-context";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { SketchMethod, SketchConfig, SketchFile } from "@/types";
+import {
+  SketchMethod,
+  SketchConfig,
+  SketchFile,
+  SketchPreset,
+  SketchProcessingOptions,
+  ProcessingMode,
+  BlurType,
+  SKETCH_METHOD_OPTIONS,
+  DEFAULT_SKETCH_CONFIG,
+  getSketchParameter,
+  getSketchParameters,
+} from "@/types";
 import { toast } from "sonner";
-import { FileUpload } from "./ui/file-upload";
+import { FileUpload, UploadedFile } from "./ui/file-upload";
+import { DECODABLE_IMAGE_ACCEPT } from "@/lib/image-decode";
+import {
+  DEFAULT_FILE_NAME_PATTERN,
+  FILE_NAME_TOKENS,
+  downloadSketchArchive,
+  loadFileNamePattern,
+  storeFileNamePattern,
+} from "@/lib/sketch-archive";
+import { SketchPreview } from "./ui/sketch-preview";
+import { SketchPresets } from "./ui/sketch-presets";
+import { SketchExportDialog } from "./ui/sketch-export-dialog";
+import { SketchSweepDialog } from "./ui/sketch-sweep-dialog";
+import { MethodComparisonDialog } from "./ui/method-comparison-dialog";
+import { SketchVersionsDialog } from "./ui/sketch-versions-dialog";
+import { SketchTracePanel } from "./ui/sketch-trace-panel";
+import { CompareMode } from "./ui/sketch-compare";
+import { SketchViewer } from "./ui/sketch-viewer";
+import { PresignedImage } from "./ui/presigned-image";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
   Download, 
@@ -24,7 +56,20 @@ import {
   Minimize2,
   Info,
   Palette,
-  Sliders
+  Sliders,
+  Pause,
+  Play,
+  Ban,
+  FileArchive,
+  FileOutput,
+  PenTool,
+  GitCompare,
+  Grid3x3,
+  Columns3,
+  History,
+  Undo2,
+  Redo2,
+  RotateCcw
 } from "lucide-react";
 import {
   Tooltip,
@@ -36,7 +81,16 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { 
   Select,
   SelectContent,
@@ -45,58 +99,197 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { ChannelState } from "@/lib/progress-channel";
+import { resolvePresignedUrl } from "@/lib/presigned-urls";
+import { listVersions } from "@/lib/sketch-versions";
+
+// Swatch shown next to each method in the selector
+const methodSwatches: Record<SketchMethod, string> = {
+  [SketchMethod.BASIC]: "bg-primary/20",
+  [SketchMethod.ADVANCED]: "bg-primary/50",
+  [SketchMethod.ARTISTIC]: "bg-primary/80",
+};
+
+const getMethodLabel = (method: SketchMethod) =>
+  SKETCH_METHOD_OPTIONS.find(option => option.value === method)?.label ?? method;
+
+// Name of an option change in the undo history
+const describeOptionsChange = (options: { method?: SketchMethod; config?: Partial<SketchConfig> }) => {
+  if (options.method) return `Method: ${getMethodLabel(options.method)}`;
+
+  const [key, value] = Object.entries(options.config ?? {})[0] ?? [];
+  if (!key) return "Options";
+  const parameter = getSketchParameter(key as keyof SketchConfig);
+  if (typeof value === "boolean") return `${parameter.label} ${value ? "on" : "off"}`;
+  if (typeof value === "number" && parameter.type === "number") return `${parameter.label} ${value.toFixed(parameter.precision)}`;
+  return `${parameter.label}: ${value}`;
+};
+
+// Status shown while job progress is streamed
+const channelLabels: Record<ChannelState, string> = {
+  connecting: "Connecting",
+  open: "Live",
+  reconnecting: "Reconnecting",
+  polling: "Polling",
+  closed: "Done",
+};
 
 export function AdvancedSketchify() {
-  // State for sketch options
-  const [sketchOptions, setSketchOptions] = useState<{
-    method: SketchMethod;
-    config?: SketchConfig;
-  }>({
-    method: SketchMethod.ADVANCED,
-    config: {
-      sigma_s: 60,
-      sigma_r: 0.07,
-      shade_factor: 0.05,
-      kernel_size: 21,
-      blur_type: "gaussian",
-      edge_preserve: true,
-      texture_enhance: true,
-      contrast: 1.5,
-      brightness: 0,
-      smoothing_factor: 0.9,
-    }
-  });
+  // Queued uploads with their own method and config, by their id in the upload list
+  const [fileSettings, setFileSettings] = useState<Record<string, SketchProcessingOptions>>({});
+  const [queuedSelection, setQueuedSelection] = useState<string[]>([]);
+  
+  // Where sketches are rendered; 'auto' keeps small images in the browser
+  const [processingMode, setProcessingMode] = useState<ProcessingMode>("auto");
   
   // State for UI
   const [activeTab, setActiveTab] = useState("upload");
+  
+  // Sketch options with undo/redo; the shortcuts only apply on the options tab
+  const optionsHistory = useOptionsHistory<SketchProcessingOptions>({
+    method: SketchMethod.ADVANCED,
+    config: { ...DEFAULT_SKETCH_CONFIG }
+  }, { shortcuts: activeTab === "options" });
+  const sketchOptions = optionsHistory.value;
+  const changeOptions = optionsHistory.change;
   const [fullscreen, setFullscreen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<SketchFile | null>(null);
   const [showBeforeAfter, setShowBeforeAfter] = useState(false);
   const [beforeAfterPosition, setBeforeAfterPosition] = useState(50);
+  const [compareMode, setCompareMode] = useState<CompareMode>("slider");
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [showTrace, setShowTrace] = useState(false);
+  const [traceOverlayUrl, setTraceOverlayUrl] = useState<string | null>(null);
+  
+  // Bulk download state
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [fileNamePattern, setFileNamePattern] = useState(DEFAULT_FILE_NAME_PATTERN);
+  const [archiveProgress, setArchiveProgress] = useState<{ current: number; total: number } | null>(null);
+  const [exportFiles, setExportFiles] = useState<SketchFile[] | null>(null);
+  const [showSweep, setShowSweep] = useState(false);
+  // Results card whose image is being run through every method, with the config
+  // taken when the comparison opened so later option changes do not restart it
+  const [comparing, setComparing] = useState<{ file: SketchFile; config?: SketchConfig } | null>(null);
+  // Results card whose versions are being browsed
+  const [versionsFileId, setVersionsFileId] = useState<string | null>(null);
+  
+  // The saved pattern lives in localStorage, which is only available after mount
+  useEffect(() => {
+    setFileNamePattern(loadFileNamePattern());
+  }, []);
+  
+  // Forget the settings of files that were removed from the upload list
+  const fileUploadContext = useFileUpload();
+  useEffect(() => {
+    setFileSettings(prev => {
+      const listedIds = Object.keys(prev).filter(fileId => fileUploadContext.files.has(fileId));
+      if (listedIds.length === Object.keys(prev).length) return prev;
+      return Object.fromEntries(listedIds.map(fileId => [fileId, prev[fileId]]));
+    });
+  }, [fileUploadContext.files]);
   
   // Hook for sketch processing
   const { 
-    batchProcessImages, 
-    processImage, 
+    processBatchJob, 
+    processLocalFiles,
     files: sketchFiles, 
     processing: isProcessing, 
     progress: processingProgress,
-    clearFiles 
+    channel: progressChannel,
+    pausedJobs,
+    cancelFile,
+    cancelAll,
+    pauseJob,
+    resumeJob,
+    clearFiles,
+    resolveOriginalUrl,
+    reprocessFile,
+    restoreVersion,
+    deleteVersion,
+    compareMethods,
+    keepCandidates,
+    discardCandidates
   } = useSketchProcessing();
   
-  // Handle sketch options change
+  // The original is only looked up once a comparison is asked for
+  useEffect(() => {
+    setOriginalUrl(null);
+    if (!showBeforeAfter || !selectedFile) return;
+    
+    let cancelled = false;
+    resolveOriginalUrl(selectedFile)
+      .then(url => {
+        if (!cancelled) setOriginalUrl(url);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error("Error loading original image:", error);
+        toast.error("Could not load the original image");
+        setShowBeforeAfter(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [showBeforeAfter, selectedFile, resolveOriginalUrl]);
+  
+  // Jobs that still have files in flight
+  const activeJobIds = Array.from(new Set(
+    sketchFiles
+      .filter(file => file.jobId && (file.status === "pending" || file.status === "processing"))
+      .map(file => file.jobId as string)
+  ));
+  const allJobsPaused = activeJobIds.length > 0 && activeJobIds.every(jobId => pausedJobs.includes(jobId));
+  
+  // Sketches that can go into an archive, and the ones the user ticked
+  const downloadableFiles = sketchFiles.filter(file => file.status === "completed" && file.sketchUrl);
+  const selectedFiles = downloadableFiles.filter(file => selectedIds.includes(file.id));
+  
+  // Handle sketch options change; changes in one group (a slider drag) are undone together
   const handleOptionsChange = useCallback((options: Partial<{
     method: SketchMethod;
     config?: Partial<SketchConfig>;
-  }>) => {
-    setSketchOptions(prev => ({
+  }>, group?: string) => {
+    changeOptions(prev => ({
       method: options.method ?? prev.method,
       config: options.config ? { ...prev.config, ...options.config } : prev.config
-    }));
-  }, []);
+    }), describeOptionsChange(options), group);
+  }, [changeOptions]);
+  
+  // Put back the defaults of every parameter the current method reads
+  const handleResetOptions = useCallback(() => {
+    changeOptions(prev => ({
+      ...prev,
+      config: {
+        ...prev.config,
+        ...Object.fromEntries(getSketchParameters(prev.method).map(parameter => [parameter.key, parameter.default]))
+      }
+    }), "Reset to method defaults");
+  }, [changeOptions]);
+  
+  // Add the picked method comparison results as cards of their own
+  const handleKeepCandidates = useCallback((sourceId: string, candidates: SketchFile[]) => {
+    keepCandidates(sourceId, candidates);
+    toast.success(`Kept ${candidates.length} ${candidates.length === 1 ? "result" : "results"}`);
+  }, [keepCandidates]);
+  
+  // Take over the config of the variant picked on the sweep sheet
+  const handleApplySweep = useCallback((config: SketchConfig) => {
+    changeOptions(prev => ({ ...prev, config }), "Sweep variant");
+    toast.success("Applied the selected variant's settings");
+  }, [changeOptions]);
+  
+  // Apply a saved or built-in preset on top of the current config
+  const handleApplyPreset = useCallback((preset: SketchPreset) => {
+    changeOptions(prev => ({
+      method: preset.method,
+      config: { ...prev.config, ...preset.config }
+    }), `Preset "${preset.name}"`);
+    toast.success(`Applied preset "${preset.name}"`);
+  }, [changeOptions]);
   
   // Handle upload complete and process images
-  const handleUploadComplete = useCallback(async (fileKeys: string[]) => {
+  const handleUploadComplete = useCallback(async (fileKeys: string[], uploadedFiles?: UploadedFile[]) => {
     if (fileKeys.length === 0) {
       toast.error("No files uploaded");
       return;
@@ -105,35 +298,97 @@ export function AdvancedSketchify() {
     try {
       // Prepare upload results for batch processing
       const uploadResults = fileKeys.map((key) => {
-        const fileName = key.split("/").pop() || "Unknown";
+        // Prefer the name the user picked, converted files are stored under a new extension
+        const uploaded = uploadedFiles?.find((file) => file.key === key);
+        const fileName = uploaded?.name || key.split("/").pop() || "Unknown";
         
         return {
           key,
-          size: 0, // Size isn't critical for processing
+          size: uploaded?.size ?? 0,
           name: fileName,
+          hash: uploaded?.hash,
+          settings: uploaded?.fileId ? fileSettings[uploaded.fileId] : undefined,
         };
       });
       
-      // Process images
-      await batchProcessImages(uploadResults, {
+      // Switch to results tab so per-file progress is visible while the job runs
+      setActiveTab("results");
+      
+      // Submit a processing job and wait for every file to finish
+      const processedFiles = await processBatchJob(uploadResults, {
         method: sketchOptions.method,
         config: sketchOptions.config,
-        onProgress: (progress: number) => {
-          // Progress is handled by the hook
-        },
       });
       
-      toast.success(`Successfully processed ${fileKeys.length} images`);
-      
-      // Switch to results tab
-      setActiveTab("results");
+      const failedCount = processedFiles.filter((file) => file.status === "failed").length;
+      const cancelledCount = processedFiles.filter((file) => file.status === "cancelled").length;
+      const cachedCount = processedFiles.filter((file) => file.cached).length;
+      if (failedCount > 0) {
+        toast.error(`${failedCount} of ${processedFiles.length} images failed to process`);
+      } else if (cancelledCount > 0) {
+        toast.info(`${cancelledCount} of ${processedFiles.length} images were cancelled`);
+      } else if (cachedCount > 0) {
+        toast.success(`Successfully processed ${processedFiles.length} images, ${cachedCount} reused from earlier results`);
+      } else {
+        toast.success(`Successfully processed ${processedFiles.length} images`);
+      }
     } catch (error: any) {
       console.error("Error processing files:", error);
       toast.error("Failed to process files", error.detail);
     }
-  }, [batchProcessImages, sketchOptions]);
+  }, [processBatchJob, sketchOptions, fileSettings]);
+  
+  // Decide per file whether it is rendered in the browser
+  const shouldProcessLocally = useCallback((file: File) => {
+    return resolveProcessingMode(file.size, processingMode) === "local";
+  }, [processingMode]);
   
-  // Handle retry for failed processing
+  // Render files that never leave the browser
+  const handleLocalFiles = useCallback(async (files: File[], fileIds: string[]) => {
+    const results = await processLocalFiles(files, {
+      method: sketchOptions.method,
+      config: sketchOptions.config,
+    }, fileIds.map(fileId => fileSettings[fileId]));
+    
+    const failedCount = results.filter(file => file.status === "failed").length;
+    const cancelledCount = results.filter(file => file.status === "cancelled").length;
+    if (failedCount > 0) {
+      toast.error(`${failedCount} image(s) failed to render in the browser`);
+    } else if (cancelledCount > 0 || results.length < files.length) {
+      toast.info("Rendering in the browser was cancelled");
+    } else {
+      toast.success(`Rendered ${results.length} image(s) in the browser`);
+    }
+    
+    setActiveTab("results");
+  }, [processLocalFiles, sketchOptions, fileSettings]);
+  
+  // Give the selected queued uploads their own settings, or hand them back to the global ones
+  const handleApplyToSelected = useCallback((settings: SketchProcessingOptions | null) => {
+    setFileSettings(prev => {
+      const next = { ...prev };
+      queuedSelection.forEach(fileId => {
+        if (settings) {
+          next[fileId] = settings;
+        } else {
+          delete next[fileId];
+        }
+      });
+      return next;
+    });
+    toast.success(settings
+      ? `Applied ${getMethodLabel(settings.method)} to ${queuedSelection.length} file(s)`
+      : `${queuedSelection.length} file(s) use the global options again`);
+  }, [queuedSelection]);
+  
+  const handleResetFileSettings = useCallback((fileId: string) => {
+    setFileSettings(prev => {
+      const { [fileId]: _, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+  
+  // Process a card again with the current options; earlier outputs stay as versions
   const handleRetry = useCallback(async (fileId: string) => {
     const file = sketchFiles.find((f) => f.id === fileId);
     
@@ -142,41 +397,105 @@ export function AdvancedSketchify() {
       return;
     }
     
-    try {
-      await processImage(
-        file.originalKey,
-        file.name,
-        file.size,
-        {
-          method: sketchOptions.method,
-          config: sketchOptions.config,
-        }
-      );
-      
+    const updatedFile = await reprocessFile(file, {
+      method: sketchOptions.method,
+      config: sketchOptions.config,
+    });
+    
+    if (updatedFile.status === "completed") {
       toast.success("Successfully reprocessed image");
-    } catch (error) {
-      console.error("Error reprocessing image:", error);
+    } else if (updatedFile.status === "failed") {
       toast.error("Failed to reprocess image");
     }
-  }, [sketchFiles, processImage, sketchOptions]);
+  }, [sketchFiles, reprocessFile, sketchOptions]);
+  
+  // Stop a single file
+  const handleCancelFile = useCallback(async (fileId: string) => {
+    const cancelled = await cancelFile(fileId);
+    if (!cancelled) {
+      toast.error("The server could not cancel this image");
+    }
+  }, [cancelFile]);
+  
+  // Stop everything that is still in flight
+  const handleCancelAll = useCallback(async () => {
+    const cancelled = await cancelAll();
+    if (cancelled) {
+      toast.success("Processing cancelled");
+    } else {
+      toast.error("Some jobs could not be cancelled on the server");
+    }
+  }, [cancelAll]);
+  
+  // Pause or resume the given jobs
+  const handleTogglePause = useCallback(async (jobIds: string[], pause: boolean) => {
+    const results = await Promise.all(jobIds.map(jobId => pause ? pauseJob(jobId) : resumeJob(jobId)));
+    if (results.some(ok => !ok)) {
+      toast.error(pause ? "Failed to pause processing" : "Failed to resume processing");
+    }
+  }, [pauseJob, resumeJob]);
   
   // Handle download
-  const handleDownload = useCallback((file: SketchFile) => {
+  const handleDownload = useCallback(async (file: SketchFile) => {
     if (!file.sketchUrl) {
       toast.error("No sketch URL available");
       return;
     }
     
-    const link = document.createElement("a");
-    link.href = file.sketchUrl;
-    link.download = `sketch_${file.name}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
-    toast.success("Download started");
+    try {
+      const link = document.createElement("a");
+      link.href = await resolvePresignedUrl(file.sketchKey, file.sketchUrl);
+      link.download = `sketch_${file.name}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      
+      toast.success("Download started");
+    } catch (error) {
+      console.error("Error downloading sketch:", error);
+      toast.error("Failed to download sketch");
+    }
   }, []);
   
+  // Tick or untick a sketch for the archive
+  const handleToggleSelected = useCallback((fileId: string) => {
+    setSelectedIds(prev => prev.includes(fileId) ? prev.filter(id => id !== fileId) : [...prev, fileId]);
+  }, []);
+  
+  const handlePatternChange = useCallback((pattern: string) => {
+    setFileNamePattern(pattern);
+    storeFileNamePattern(pattern);
+  }, []);
+  
+  // Download several sketches as one ZIP archive
+  const handleDownloadArchive = useCallback(async (files: SketchFile[]) => {
+    if (files.length === 0) {
+      toast.error("No completed sketches to download");
+      return;
+    }
+    
+    setArchiveProgress({ current: 0, total: files.length });
+    try {
+      const result = await downloadSketchArchive(files, {
+        pattern: fileNamePattern,
+        onProgress: (current, total) => setArchiveProgress({ current, total }),
+      });
+      
+      if (!result.saved) return;
+      if (result.skipped > 0) {
+        toast.error(`${result.skipped} of ${files.length} sketches could not be downloaded and were left out`);
+      } else {
+        toast.success(`Downloaded ${result.written} sketches as a ZIP archive`);
+      }
+      setSelectedIds([]);
+    } catch (error) {
+      console.error("Error creating archive:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create archive");
+    } finally {
+      setArchiveProgress(null);
+    }
+  }, [fileNamePattern]);
+  
   // Handle share
   const handleShare = useCallback(async (file: SketchFile) => {
     if (!file.sketchUrl) {
@@ -185,14 +504,15 @@ export function AdvancedSketchify() {
     }
     
     try {
+      const url = await resolvePresignedUrl(file.sketchKey, file.sketchUrl);
       if (navigator.share) {
         await navigator.share({
           title: `Sketch of ${file.name}`,
           text: "Check out this amazing sketch created with ImageToSketch!",
-          url: file.sketchUrl,
+          url,
         });
       } else {
-        await navigator.clipboard.writeText(file.sketchUrl);
+        await navigator.clipboard.writeText(url);
         toast.success("URL copied to clipboard");
       }
     } catch (error) {
@@ -229,6 +549,38 @@ export function AdvancedSketchify() {
       {/* Fullscreen Controls */}
       {fullscreen && (
         <div className="absolute top-4 right-4 z-10 flex gap-2">
+          <Button 
+            variant="outline" 
+            size="icon" 
+            onClick={() => {
+              setShowBeforeAfter(!showBeforeAfter);
+              setShowTrace(false);
+            }}
+            className={cn(
+              "rounded-full bg-background/80 backdrop-blur-sm",
+              showBeforeAfter && "bg-primary text-primary-foreground"
+            )}
+            disabled={!selectedFile?.sketchUrl}
+            title="Compare with original"
+          >
+            <GitCompare className="h-4 w-4" />
+          </Button>
+          <Button 
+            variant="outline" 
+            size="icon" 
+            onClick={() => {
+              setShowTrace(!showTrace);
+              setShowBeforeAfter(false);
+            }}
+            className={cn(
+              "rounded-full bg-background/80 backdrop-blur-sm",
+              showTrace && "bg-primary text-primary-foreground"
+            )}
+            disabled={!selectedFile?.sketchUrl || selectedFile.status !== "completed"}
+            title="Vector trace"
+          >
+            <PenTool className="h-4 w-4" />
+          </Button>
           <Button 
             variant="outline" 
             size="icon" 
@@ -251,35 +603,24 @@ export function AdvancedSketchify() {
       {/* Fullscreen Image View */}
       {fullscreen && selectedFile && (
         <div className="h-full w-full flex items-center justify-center">
-          <div className="relative max-w-full max-h-full">
-            {showBeforeAfter && selectedFile.sketchUrl ? (
-              <div className="relative w-full h-full overflow-hidden">
-                {/* Original Image (if available) */}
-                <img 
-                  src={selectedFile.sketchUrl} 
-                  alt={`Sketch of ${selectedFile.name}`}
-                  className="max-w-full max-h-[80vh] object-contain"
-                />
-                
-                {/* Slider Controls */}
-                <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 w-64">
-                  <Slider
-                    value={[beforeAfterPosition]}
-                    min={0}
-                    max={100}
-                    step={1}
-                    onValueChange={(value) => setBeforeAfterPosition(value[0])}
-                    className="z-20"
-                  />
-                </div>
-              </div>
-            ) : (
-              <img 
-                src={selectedFile.sketchUrl} 
-                alt={`Sketch of ${selectedFile.name}`}
-                className="max-w-full max-h-[80vh] object-contain"
-              />
-            )}
+          {showTrace && selectedFile.sketchUrl && (
+            <div className="absolute top-4 left-4 z-10">
+              <SketchTracePanel key={selectedFile.id} file={selectedFile} onOverlayChange={setTraceOverlayUrl} />
+            </div>
+          )}
+          <div className="relative h-full w-full pt-12">
+            <SketchViewer
+              key={selectedFile.id}
+              file={selectedFile}
+              compare={showBeforeAfter}
+              originalUrl={originalUrl}
+              compareMode={compareMode}
+              onCompareModeChange={setCompareMode}
+              comparePosition={beforeAfterPosition}
+              onComparePositionChange={setBeforeAfterPosition}
+              overlayUrl={showTrace && !showBeforeAfter ? traceOverlayUrl : null}
+              className="h-full w-full"
+            />
             
             {/* Image Controls */}
             <div className="absolute bottom-4 right-4 flex gap-2">
@@ -292,6 +633,15 @@ export function AdvancedSketchify() {
               >
                 <Download className="h-4 w-4" />
               </Button>
+              <Button 
+                variant="outline" 
+                size="icon"
+                onClick={() => setExportFiles([selectedFile])}
+                className="rounded-full bg-background/80 backdrop-blur-sm"
+                disabled={selectedFile.status !== "completed" || !selectedFile.sketchUrl}
+              >
+                <FileOutput className="h-4 w-4" />
+              </Button>
               <Button 
                 variant="outline" 
                 size="icon"
@@ -343,14 +693,44 @@ export function AdvancedSketchify() {
                       </p>
                     </div>
                     
+                    {queuedSelection.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/30 p-3">
+                        <span className="text-sm font-medium mr-auto">{queuedSelection.length} selected</span>
+                        <Select
+                          value=""
+                          onValueChange={(value) => handleApplyToSelected({ method: value as SketchMethod, config: sketchOptions.config })}
+                        >
+                          <SelectTrigger size="sm" className="w-40">
+                            <SelectValue placeholder="Set method" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SKETCH_METHOD_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                <div className="flex items-center">
+                                  <div className={cn("w-3 h-3 rounded-full mr-2", methodSwatches[option.value])}></div>
+                                  {option.label}
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button size="sm" variant="outline" onClick={() => handleApplyToSelected({ ...sketchOptions })}>
+                          Apply current options
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleApplyToSelected(null)}>
+                          Use global options
+                        </Button>
+                      </div>
+                    )}
+                    
                     <FileUpload
                       onUploadComplete={handleUploadComplete}
-                      maxFiles={10}
                       maxSize={10 * 1024 * 1024} // 10MB
                       accept={{
                         'image/jpeg': ['.jpg', '.jpeg'],
                         'image/png': ['.png'],
                         'image/webp': ['.webp'],
+                        ...DECODABLE_IMAGE_ACCEPT,
                       }}
                       prefix="sketches"
                       isPublic={true}
@@ -360,7 +740,32 @@ export function AdvancedSketchify() {
                       }}
                       showFileList={true}
                       autoUpload={false}
-                      description="Upload images to convert to sketches. Maximum file size: 10MB. Accepted formats: JPG, PNG, WEBP"
+                      description="Upload images to convert to sketches. Photos are straightened, stripped of metadata and resized to 4096px before upload. Maximum file size: 10MB. Accepted formats: JPG, PNG, WEBP, HEIC, DNG, or whole folders and ZIP archives of them"
+                      processLocally={shouldProcessLocally}
+                      onLocalFiles={handleLocalFiles}
+                      normalizeImages={true}
+                      maxImageDimension={4096}
+                      imageFormat="image/webp"
+                      imageQuality={0.9}
+                      selectedFileIds={queuedSelection}
+                      onSelectedFileIdsChange={setQueuedSelection}
+                      renderFileDetails={(fileId) => fileSettings[fileId] && (
+                        <div className="flex items-center gap-1 mt-1">
+                          <Badge variant="secondary" className="gap-1.5">
+                            <span className={cn("w-2 h-2 rounded-full", methodSwatches[fileSettings[fileId].method])} />
+                            {getMethodLabel(fileSettings[fileId].method)}
+                          </Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-5 w-5"
+                            onClick={() => handleResetFileSettings(fileId)}
+                            title="Use global options"
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
                     />
                     
                     {isProcessing && (
@@ -377,160 +782,226 @@ export function AdvancedSketchify() {
                 
                 <TabsContent value="options" className="p-6 focus:outline-none">
                   <div className="space-y-6">
-                    <div className="flex flex-col space-y-2">
-                      <h3 className="text-xl font-semibold">Sketch Options</h3>
-                      <p className="text-muted-foreground">
-                        Customize how your sketches will look
-                      </p>
-                    </div>
-                    
-                    <div className="space-y-6">
-                      {/* Sketch Method */}
-                      <div className="space-y-2">
-                        <Label>Sketch Method</Label>
-                        <Select
-                          value={sketchOptions.method}
-                          onValueChange={(value) => handleOptionsChange({ method: value as SketchMethod })}
-                        >
-                          <SelectTrigger className="w-full">
-                            <SelectValue placeholder="Select a sketch method" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value={SketchMethod.BASIC}>
-                              <div className="flex items-center">
-                                <div className="w-4 h-4 rounded-full bg-primary/20 mr-2"></div>
-                                Basic
-                              </div>
-                            </SelectItem>
-                            <SelectItem value={SketchMethod.ADVANCED}>
-                              <div className="flex items-center">
-                                <div className="w-4 h-4 rounded-full bg-primary/50 mr-2"></div>
-                                Advanced
-                              </div>
-                            </SelectItem>
-                            <SelectItem value={SketchMethod.ARTISTIC}>
-                              <div className="flex items-center">
-                                <div className="w-4 h-4 rounded-full bg-primary/80 mr-2"></div>
-                                Artistic
-                              </div>
-                            </SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <p className="text-xs text-muted-foreground">
-                          Choose the sketch style you prefer. Advanced and Artistic methods provide more realistic results.
+                    <div className="flex flex-wrap items-start justify-between gap-4">
+                      <div className="flex flex-col space-y-2">
+                        <h3 className="text-xl font-semibold">Sketch Options</h3>
+                        <p className="text-muted-foreground">
+                          Customize how your sketches will look
                         </p>
                       </div>
-                      
-                      {/* Advanced Options */}
-                      <div className="space-y-4 pt-2">
-                        <div className="flex items-center justify-between">
-                          <h4 className="text-sm font-medium flex items-center">
-                            <Sliders className="h-4 w-4 mr-2" />
-                            Advanced Settings
-                          </h4>
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <Button variant="ghost" size="icon" className="h-8 w-8">
-                                  <Info className="h-4 w-4" />
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Fine-tune your sketch appearance</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
-                        </div>
-                        
-                        {/* Contrast */}
-                        <div className="space-y-2">
-                          <div className="flex justify-between">
-                            <Label>Contrast</Label>
-                            <span className="text-xs text-muted-foreground">
-                              {sketchOptions.config?.contrast?.toFixed(1)}
-                            </span>
-                          </div>
-                          <Slider
-                            value={[sketchOptions.config?.contrast || 1.5]}
-                            min={0.5}
-                            max={3}
-                            step={0.1}
-                            onValueChange={(values) => 
-                              handleOptionsChange({ config: { contrast: values[0] } })
-                            }
-                          />
-                        </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={optionsHistory.undo}
+                          disabled={!optionsHistory.canUndo}
+                          title="Undo (Ctrl+Z)"
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={optionsHistory.redo}
+                          disabled={!optionsHistory.canRedo}
+                          title="Redo (Ctrl+Shift+Z)"
+                        >
+                          <Redo2 className="h-4 w-4" />
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button size="sm" variant="outline" className="gap-2">
+                              <History className="h-4 w-4" />
+                              History
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="w-64 max-h-80 overflow-y-auto">
+                            <DropdownMenuLabel>Recent changes</DropdownMenuLabel>
+                            <DropdownMenuSeparator />
+                            {optionsHistory.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+                              <DropdownMenuItem
+                                key={entry.id}
+                                onSelect={() => optionsHistory.jumpTo(index)}
+                                className={cn(
+                                  index === optionsHistory.index && "font-medium",
+                                  index > optionsHistory.index && "text-muted-foreground"
+                                )}
+                              >
+                                <span className="truncate">{entry.label}</span>
+                                <span className="ml-auto text-xs text-muted-foreground">
+                                  {new Date(entry.createdAt).toLocaleTimeString()}
+                                </span>
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                        <Button size="sm" variant="outline" className="gap-2" onClick={handleResetOptions}>
+                          <RotateCcw className="h-4 w-4" />
+                          Reset
+                        </Button>
+                      </div>
+                    </div>
+                    
+                    <div className="grid gap-6 lg:grid-cols-2">
+                      <div className="space-y-6">
+                        {/* Presets */}
+                        <SketchPresets
+                          method={sketchOptions.method}
+                          config={sketchOptions.config}
+                          onApply={handleApplyPreset}
+                        />
                         
-                        {/* Shade Factor */}
+                        {/* Sketch Method */}
                         <div className="space-y-2">
-                          <div className="flex justify-between">
-                            <Label>Shade Intensity</Label>
-                            <span className="text-xs text-muted-foreground">
-                              {sketchOptions.config?.shade_factor?.toFixed(2)}
-                            </span>
-                          </div>
-                          <Slider
-                            value={[sketchOptions.config?.shade_factor || 0.05]}
-                            min={0.01}
-                            max={0.5}
-                            step={0.01}
-                            onValueChange={(values) => 
-                              handleOptionsChange({ config: { shade_factor: values[0] } })
-                            }
-                          />
+                          <Label>Sketch Method</Label>
+                          <Select
+                            value={sketchOptions.method}
+                            onValueChange={(value) => handleOptionsChange({ method: value as SketchMethod })}
+                          >
+                            <SelectTrigger className="w-full">
+                              <SelectValue placeholder="Select a sketch method" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {SKETCH_METHOD_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  <div className="flex items-center">
+                                    <div className={cn("w-4 h-4 rounded-full mr-2", methodSwatches[option.value])}></div>
+                                    {option.label}
+                                  </div>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">
+                            Choose the sketch style you prefer. Advanced and Artistic methods provide more realistic results.
+                          </p>
                         </div>
                         
-                        {/* Smoothing Factor */}
+                        {/* Processing Mode */}
                         <div className="space-y-2">
-                          <div className="flex justify-between">
-                            <Label>Smoothing</Label>
-                            <span className="text-xs text-muted-foreground">
-                              {sketchOptions.config?.smoothing_factor?.toFixed(1)}
-                            </span>
-                          </div>
-                          <Slider
-                            value={[sketchOptions.config?.smoothing_factor || 0.9]}
-                            min={0}
-                            max={1}
-                            step={0.1}
-                            onValueChange={(values) => 
-                              handleOptionsChange({ config: { smoothing_factor: values[0] } })
-                            }
-                          />
+                          <Label>Processing</Label>
+                          <Select
+                            value={processingMode}
+                            onValueChange={(value) => setProcessingMode(value as ProcessingMode)}
+                          >
+                            <SelectTrigger className="w-full">
+                              <SelectValue placeholder="Select where to process" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="auto">Auto</SelectItem>
+                              <SelectItem value="local">On this device</SelectItem>
+                              <SelectItem value="server">Server</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">
+                            Auto renders small images in your browser so they are never uploaded.
+                          </p>
                         </div>
                         
-                        {/* Edge Preservation */}
-                        <div className="flex items-center justify-between space-x-2">
-                          <div>
-                            <Label>Edge Preservation</Label>
-                            <p className="text-xs text-muted-foreground">
-                              Preserve edges for more natural-looking sketches
-                            </p>
+                        {/* Advanced Options */}
+                        <div className="space-y-4 pt-2">
+                          <div className="flex items-center justify-between">
+                            <h4 className="text-sm font-medium flex items-center">
+                              <Sliders className="h-4 w-4 mr-2" />
+                              Advanced Settings
+                            </h4>
+                            <TooltipProvider>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                                    <Info className="h-4 w-4" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p>Fine-tune your sketch appearance</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </TooltipProvider>
                           </div>
-                          <Switch
-                            checked={sketchOptions.config?.edge_preserve}
-                            onCheckedChange={(checked) => 
-                              handleOptionsChange({ config: { edge_preserve: checked } })
+                          
+                          {getSketchParameters(sketchOptions.method).map((parameter) => {
+                            if (parameter.type === "boolean") {
+                              return (
+                                <div key={parameter.key} className="flex items-center justify-between space-x-2">
+                                  <div>
+                                    <Label>{parameter.label}</Label>
+                                    <p className="text-xs text-muted-foreground">
+                                      {parameter.description}
+                                    </p>
+                                  </div>
+                                  <Switch
+                                    checked={sketchOptions.config?.[parameter.key] ?? parameter.default}
+                                    onCheckedChange={(checked) => 
+                                      handleOptionsChange({ config: { [parameter.key]: checked } })
+                                    }
+                                  />
+                                </div>
+                              );
                             }
-                          />
-                        </div>
-                        
-                        {/* Texture Enhancement */}
-                        <div className="flex items-center justify-between space-x-2">
-                          <div>
-                            <Label>Texture Enhancement</Label>
-                            <p className="text-xs text-muted-foreground">
-                              Enhance texture details in the sketch
-                            </p>
-                          </div>
-                          <Switch
-                            checked={sketchOptions.config?.texture_enhance}
-                            onCheckedChange={(checked) => 
-                              handleOptionsChange({ config: { texture_enhance: checked } })
+                            
+                            if (parameter.type === "select") {
+                              return (
+                                <div key={parameter.key} className="space-y-2">
+                                  <Label>{parameter.label}</Label>
+                                  <Select
+                                    value={sketchOptions.config?.[parameter.key] ?? parameter.default}
+                                    onValueChange={(value) => 
+                                      handleOptionsChange({ config: { [parameter.key]: value as BlurType } })
+                                    }
+                                  >
+                                    <SelectTrigger className="w-full">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {parameter.options.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                          {option.label}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <p className="text-xs text-muted-foreground">
+                                    {parameter.description}
+                                  </p>
+                                </div>
+                              );
                             }
-                          />
+                            
+                            const value = sketchOptions.config?.[parameter.key] ?? parameter.default;
+                            return (
+                              <div key={parameter.key} className="space-y-2">
+                                <div className="flex justify-between">
+                                  <Label>{parameter.label}</Label>
+                                  <span className="text-xs text-muted-foreground">
+                                    {value.toFixed(parameter.precision)}
+                                  </span>
+                                </div>
+                                <Slider
+                                  value={[value]}
+                                  min={parameter.min}
+                                  max={parameter.max}
+                                  step={parameter.step}
+                                  onValueChange={(values) => 
+                                    handleOptionsChange({ config: { [parameter.key]: values[0] } }, parameter.key)
+                                  }
+                                  onValueCommit={optionsHistory.seal}
+                                />
+                              </div>
+                            );
+                          })}
                         </div>
                       </div>
+                      
+                      <div className="lg:sticky lg:top-4 self-start space-y-3">
+                        <SketchPreview
+                          method={sketchOptions.method}
+                          config={sketchOptions.config}
+                        />
+                        <Button variant="outline" className="w-full gap-2" onClick={() => setShowSweep(true)}>
+                          <Grid3x3 className="h-4 w-4" />
+                          Parameter Sweep
+                        </Button>
+                      </div>
                     </div>
                   </div>
                 </TabsContent>
@@ -541,128 +1012,323 @@ export function AdvancedSketchify() {
                       <div className="flex flex-col space-y-2">
                         <div className="flex justify-between items-center">
                           <h3 className="text-xl font-semibold">Results</h3>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={clearFiles}
-                            disabled={isProcessing}
-                          >
-                            Clear All
-                          </Button>
+                          <div className="flex gap-2">
+                            {activeJobIds.length > 0 && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleTogglePause(activeJobIds, !allJobsPaused)}
+                                className="gap-2"
+                              >
+                                {allJobsPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                                {allJobsPaused ? "Resume" : "Pause"}
+                              </Button>
+                            )}
+                            {isProcessing && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleCancelAll}
+                                className="gap-2"
+                              >
+                                <Ban className="h-4 w-4" />
+                                Cancel All
+                              </Button>
+                            )}
+                            {selectedFiles.length > 0 && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDownloadArchive(selectedFiles)}
+                                disabled={archiveProgress !== null}
+                                className="gap-2"
+                              >
+                                <FileArchive className="h-4 w-4" />
+                                Download Selected ({selectedFiles.length})
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDownloadArchive(downloadableFiles)}
+                              disabled={downloadableFiles.length === 0 || archiveProgress !== null}
+                              className="gap-2"
+                            >
+                              {archiveProgress ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Download className="h-4 w-4" />
+                              )}
+                              {archiveProgress
+                                ? `Zipping ${archiveProgress.current} of ${archiveProgress.total}`
+                                : "Download All"}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setExportFiles(selectedFiles.length > 0 ? selectedFiles : downloadableFiles)}
+                              disabled={downloadableFiles.length === 0 || archiveProgress !== null}
+                              className="gap-2"
+                            >
+                              <FileOutput className="h-4 w-4" />
+                              {selectedFiles.length > 0 ? `Export Selected (${selectedFiles.length})` : "Export"}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                clearFiles();
+                                setSelectedIds([]);
+                              }}
+                              disabled={isProcessing}
+                            >
+                              Clear All
+                            </Button>
+                          </div>
                         </div>
-                        <p className="text-muted-foreground">
-                          Your processed sketch images
-                        </p>
+                        <div className="flex items-center gap-2">
+                          <p className="text-muted-foreground">
+                            Your processed sketch images
+                          </p>
+                          {isProcessing && progressChannel && progressChannel.state !== "closed" && (
+                            <Badge variant="outline" className="gap-1">
+                              {progressChannel.state === "open" ? (
+                                <span className="h-2 w-2 rounded-full bg-green-500" />
+                              ) : (
+                                <Loader2 className="animate-spin" />
+                              )}
+                              {channelLabels[progressChannel.state]}
+                            </Badge>
+                          )}
+                        </div>
+                        {downloadableFiles.length > 0 && (
+                          <div className="flex flex-col gap-1 pt-2 sm:flex-row sm:items-center sm:gap-3">
+                            <Label htmlFor="archive-name-pattern" className="shrink-0">
+                              File names in ZIP
+                            </Label>
+                            <Input
+                              id="archive-name-pattern"
+                              value={fileNamePattern}
+                              onChange={(event) => handlePatternChange(event.target.value)}
+                              placeholder={DEFAULT_FILE_NAME_PATTERN}
+                              className="h-8 sm:max-w-xs"
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              {FILE_NAME_TOKENS.join(" ")}
+                            </p>
+                          </div>
+                        )}
                       </div>
                       
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                         <AnimatePresence>
-                          {sketchFiles.map((file) => (
-                            <motion.div
-                              key={file.id}
-                              initial={{ opacity: 0, y: 20 }}
-                              animate={{ opacity: 1, y: 0 }}
-                              exit={{ opacity: 0, scale: 0.9 }}
-                              transition={{ duration: 0.2 }}
-                            >
-                              <Card className="overflow-hidden h-full flex flex-col">
-                                <div className="aspect-square relative bg-muted cursor-pointer" onClick={() => handleViewImage(file)}>
-                                  {file.status === "completed" && file.sketchUrl ? (
-                                    <>
-                                      <img
-                                        src={file.sketchUrl}
-                                        alt={`Sketch of ${file.name}`}
-                                        className="object-cover w-full h-full"
-                                      />
-                                      <div className="absolute inset-0 bg-black/0 hover:bg-black/20 transition-colors flex items-center justify-center opacity-0 hover:opacity-100">
-                                        <Maximize2 className="h-6 w-6 text-white" />
+                          {sketchFiles.map((file) => {
+                            const inFlight = file.status === "pending" || file.status === "processing";
+                            const paused = inFlight && !!file.jobId && pausedJobs.includes(file.jobId);
+                            
+                            return (
+                              <motion.div
+                                key={file.id}
+                                initial={{ opacity: 0, y: 20 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                exit={{ opacity: 0, scale: 0.9 }}
+                                transition={{ duration: 0.2 }}
+                              >
+                                <Card className="overflow-hidden h-full flex flex-col">
+                                  <div className="aspect-square relative bg-muted cursor-pointer" onClick={() => handleViewImage(file)}>
+                                    {file.status === "completed" && file.sketchUrl ? (
+                                      <>
+                                        <PresignedImage
+                                          objectKey={file.sketchKey}
+                                          src={file.sketchUrl}
+                                          alt={`Sketch of ${file.name}`}
+                                          className="object-cover w-full h-full"
+                                        />
+                                        <div className="absolute inset-0 bg-black/0 hover:bg-black/20 transition-colors flex items-center justify-center opacity-0 hover:opacity-100">
+                                          <Maximize2 className="h-6 w-6 text-white" />
+                                        </div>
+                                        <label
+                                          className="absolute top-2 left-2 flex items-center rounded bg-background/90 p-1.5 shadow-sm"
+                                          onClick={(event) => event.stopPropagation()}
+                                          title="Select for ZIP download"
+                                        >
+                                          <input
+                                            type="checkbox"
+                                            className="h-4 w-4 accent-primary"
+                                            checked={selectedIds.includes(file.id)}
+                                            onChange={() => handleToggleSelected(file.id)}
+                                          />
+                                        </label>
+                                      </>
+                                    ) : paused ? (
+                                      <div className="absolute inset-0 flex flex-col items-center justify-center">
+                                        <Pause className="h-10 w-10 text-muted-foreground" />
+                                        <p className="mt-2 text-sm text-muted-foreground">Paused</p>
+                                        {file.progress !== undefined && (
+                                          <div className="mt-3 w-2/3 space-y-1">
+                                            <Progress value={file.progress} className="h-1.5" />
+                                            <p className="text-xs text-center text-muted-foreground">{file.progress}%</p>
+                                          </div>
+                                        )}
                                       </div>
-                                    </>
-                                  ) : file.status === "processing" ? (
-                                    <div className="absolute inset-0 flex flex-col items-center justify-center">
-                                      <Loader2 className="h-10 w-10 animate-spin text-primary" />
-                                      <p className="mt-2 text-sm text-muted-foreground">Processing...</p>
-                                    </div>
-                                  ) : file.status === "failed" ? (
-                                    <div className="absolute inset-0 flex flex-col items-center justify-center">
-                                      <div className="rounded-full bg-red-100 p-3">
-                                        <X className="h-6 w-6 text-red-500" />
+                                    ) : file.status === "processing" ? (
+                                      <div className="absolute inset-0 flex flex-col items-center justify-center">
+                                        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+                                        <p className="mt-2 text-sm text-muted-foreground">Processing...</p>
+                                        {file.progress !== undefined && (
+                                          <div className="mt-3 w-2/3 space-y-1">
+                                            <Progress value={file.progress} className="h-1.5" />
+                                            <p className="text-xs text-center text-muted-foreground">{file.progress}%</p>
+                                          </div>
+                                        )}
                                       </div>
-                                      <p className="mt-2 text-sm text-destructive">Processing failed</p>
-                                      {file.error && (
-                                        <p className="mt-1 text-xs text-muted-foreground max-w-full px-4 text-center">
-                                          {file.error}
-                                        </p>
-                                      )}
-                                    </div>
-                                  ) : (
-                                    <div className="absolute inset-0 flex items-center justify-center">
-                                      <p className="text-sm text-muted-foreground">Pending</p>
-                                    </div>
-                                  )}
-                                </div>
-                                <CardContent className="p-4 flex-grow flex flex-col justify-between">
-                                  <div className="space-y-2">
-                                    <div className="flex justify-between items-start">
-                                      <div className="space-y-1">
-                                        <h4 className="font-medium truncate" title={file.name}>
-                                          {file.name}
-                                        </h4>
-                                        <p className="text-xs text-muted-foreground">
-                                          {formatFileSize(file.size)} • {file.method}
-                                        </p>
+                                    ) : file.status === "failed" ? (
+                                      <div className="absolute inset-0 flex flex-col items-center justify-center">
+                                        <div className="rounded-full bg-red-100 p-3">
+                                          <X className="h-6 w-6 text-red-500" />
+                                        </div>
+                                        <p className="mt-2 text-sm text-destructive">Processing failed</p>
+                                        {file.error && (
+                                          <p className="mt-1 text-xs text-muted-foreground max-w-full px-4 text-center">
+                                            {file.error}
+                                          </p>
+                                        )}
                                       </div>
-                                    </div>
+                                    ) : file.status === "cancelled" ? (
+                                      <div className="absolute inset-0 flex flex-col items-center justify-center">
+                                        <div className="rounded-full bg-muted-foreground/10 p-3">
+                                          <Ban className="h-6 w-6 text-muted-foreground" />
+                                        </div>
+                                        <p className="mt-2 text-sm text-muted-foreground">Processing cancelled</p>
+                                      </div>
+                                    ) : (
+                                      <div className="absolute inset-0 flex items-center justify-center">
+                                        <p className="text-sm text-muted-foreground">Pending</p>
+                                      </div>
+                                    )}
                                   </div>
-                                  
-                                  <div className="flex justify-between items-center mt-4">
-                                    <Badge variant={
-                                      file.status === "completed" ? "default" :
-                                      file.status === "processing" ? "secondary" :
-                                      file.status === "failed" ? "destructive" : "outline"
-                                    }>
-                                      {file.status === "completed" ? "Completed" :
-                                       file.status === "processing" ? "Processing" :
-                                       file.status === "failed" ? "Failed" : "Pending"}
-                                    </Badge>
+                                  <CardContent className="p-4 flex-grow flex flex-col justify-between">
+                                    <div className="space-y-2">
+                                      <div className="flex justify-between items-start">
+                                        <div className="space-y-1">
+                                          <h4 className="font-medium truncate" title={file.name}>
+                                            {file.name}
+                                          </h4>
+                                          <p className="text-xs text-muted-foreground">
+                                            {formatFileSize(file.size)} • {file.method}
+                                          </p>
+                                        </div>
+                                      </div>
+                                    </div>
                                     
-                                    <div className="flex gap-2">
-                                      {file.status === "completed" && (
-                                        <Button
-                                          size="icon"
-                                          variant="ghost"
-                                          onClick={() => handleDownload(file)}
-                                          title="Download sketch"
-                                        >
-                                          <Download className="h-4 w-4" />
-                                        </Button>
-                                      )}
-                                      {file.status === "failed" && (
-                                        <Button
-                                          size="icon"
-                                          variant="ghost"
-                                          onClick={() => handleRetry(file.id)}
-                                          title="Retry processing"
-                                        >
-                                          <RefreshCw className="h-4 w-4" />
-                                        </Button>
-                                      )}
-                                      {file.status === "completed" && (
-                                        <Button
-                                          size="icon"
-                                          variant="ghost"
-                                          onClick={() => handleShare(file)}
-                                          title="Share sketch"
-                                        >
-                                          <Share2 className="h-4 w-4" />
-                                        </Button>
-                                      )}
+                                    <div className="flex justify-between items-center mt-4">
+                                      <Badge variant={
+                                        file.status === "completed" ? "default" :
+                                        paused ? "outline" :
+                                        file.status === "processing" ? "secondary" :
+                                        file.status === "failed" ? "destructive" : "outline"
+                                      }>
+                                        {file.status === "completed" ? "Completed" :
+                                         paused ? "Paused" :
+                                         file.status === "processing" ? "Processing" :
+                                         file.status === "failed" ? "Failed" :
+                                         file.status === "cancelled" ? "Cancelled" : "Pending"}
+                                      </Badge>
+                                      
+                                      <div className="flex gap-2">
+                                        {inFlight && file.jobId && (
+                                          <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            onClick={() => handleTogglePause([file.jobId as string], !paused)}
+                                            title={paused ? "Resume batch" : "Pause batch"}
+                                          >
+                                            {paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                                          </Button>
+                                        )}
+                                        {inFlight && (
+                                          <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            onClick={() => handleCancelFile(file.id)}
+                                            title="Cancel processing"
+                                          >
+                                            <Ban className="h-4 w-4" />
+                                          </Button>
+                                        )}
+                                        {file.status === "completed" && (
+                                          <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            onClick={() => handleDownload(file)}
+                                            title="Download sketch"
+                                          >
+                                            <Download className="h-4 w-4" />
+                                          </Button>
+                                        )}
+                                        {file.status === "completed" && (
+                                          <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            onClick={() => setExportFiles([file])}
+                                            title="Export as another format"
+                                          >
+                                            <FileOutput className="h-4 w-4" />
+                                          </Button>
+                                        )}
+                                        {file.status === "completed" && (
+                                          <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            onClick={() => setComparing({ file, config: sketchOptions.config })}
+                                            title="Compare methods"
+                                          >
+                                            <Columns3 className="h-4 w-4" />
+                                          </Button>
+                                        )}
+                                        {(file.status === "completed" || file.status === "failed" || file.status === "cancelled") && (
+                                          <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            onClick={() => handleRetry(file.id)}
+                                            title={file.status === "completed" ? "Reprocess with current options" : "Retry processing"}
+                                          >
+                                            <RefreshCw className="h-4 w-4" />
+                                          </Button>
+                                        )}
+                                        {!inFlight && listVersions(file).length > 0 && (
+                                          <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            className="relative"
+                                            onClick={() => setVersionsFileId(file.id)}
+                                            title="Versions"
+                                          >
+                                            <History className="h-4 w-4" />
+                                            {listVersions(file).length > 1 && (
+                                              <span className="absolute -top-1 -right-1 rounded-full bg-primary px-1 text-[10px] leading-4 text-primary-foreground">
+                                                {listVersions(file).length}
+                                              </span>
+                                            )}
+                                          </Button>
+                                        )}
+                                        {file.status === "completed" && (
+                                          <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            onClick={() => handleShare(file)}
+                                            title="Share sketch"
+                                          >
+                                            <Share2 className="h-4 w-4" />
+                                          </Button>
+                                        )}
+                                      </div>
                                     </div>
-                                  </div>
-                                </CardContent>
-                              </Card>
-                            </motion.div>
-                          ))}
+                                  </CardContent>
+                                </Card>
+                              </motion.div>
+                            );
+                          })}
                         </AnimatePresence>
                       </div>
                     </div>
@@ -701,6 +1367,37 @@ export function AdvancedSketchify() {
           )}
         </div>
       )}
+      
+      <SketchExportDialog
+        files={exportFiles}
+        onClose={() => setExportFiles(null)}
+        fileNamePattern={fileNamePattern}
+      />
+      
+      <SketchSweepDialog
+        open={showSweep}
+        onOpenChange={setShowSweep}
+        method={sketchOptions.method}
+        config={sketchOptions.config}
+        files={sketchFiles}
+        onApply={handleApplySweep}
+      />
+      
+      <MethodComparisonDialog
+        file={comparing?.file ?? null}
+        config={comparing?.config}
+        compareMethods={compareMethods}
+        onKeep={handleKeepCandidates}
+        onDiscard={discardCandidates}
+        onClose={() => setComparing(null)}
+      />
+      
+      <SketchVersionsDialog
+        file={sketchFiles.find(file => file.id === versionsFileId) ?? null}
+        onClose={() => setVersionsFileId(null)}
+        onRestore={versionId => versionsFileId && restoreVersion(versionsFileId, versionId)}
+        onDelete={versionId => versionsFileId && deleteVersion(versionsFileId, versionId)}
+      />
     </div>
   );
 }
@@ -0,0 +1,249 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { motion } from "framer-motion";
+import { ArrowLeft, Download, History, Image as ImageIcon, Loader2, Search, Trash2 } from "lucide-react";
+import { SKETCH_METHOD_OPTIONS, SketchHistoryEntry, SketchMethod } from "@/types";
+import { useSketchHistory } from "@/hooks/useSketchHistory";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { PresignedImage } from "@/components/ui/presigned-image";
+import { cn } from "@/lib/utils";
+
+// Search runs once typing pauses for this long
+const SEARCH_DELAY = 300;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Group heading for a completion time, relative to today
+ */
+const getDateGroup = (iso: string, now: Date) => {
+  const date = new Date(iso);
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const time = date.getTime();
+
+  if (time >= startOfToday) return "Today";
+  if (time >= startOfToday - DAY) return "Yesterday";
+  if (time >= startOfToday - 6 * DAY) return "Earlier this week";
+  return date.toLocaleDateString(undefined, { month: "long", year: "numeric" });
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function SketchHistory() {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [methods, setMethods] = useState<SketchMethod[]>([]);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const filters = useMemo(() => ({ search, methods }), [search, methods]);
+  const { entries, thumbnails, loading, hasMore, loadMore, getSketchUrl, removeEntry } = useSketchHistory(filters);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) loadMore();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, entries.length]);
+
+  const groups = useMemo(() => {
+    const now = new Date();
+    const grouped: { label: string; entries: SketchHistoryEntry[] }[] = [];
+    entries.forEach(entry => {
+      const label = getDateGroup(entry.completedAt, now);
+      const group = grouped[grouped.length - 1];
+      if (group?.label === label) {
+        group.entries.push(entry);
+      } else {
+        grouped.push({ label, entries: [entry] });
+      }
+    });
+    return grouped;
+  }, [entries]);
+
+  const handleToggleMethod = useCallback((method: SketchMethod) => {
+    setMethods(prev => prev.includes(method) ? prev.filter(m => m !== method) : [...prev, method]);
+  }, []);
+
+  // Download links expire, so one that is still valid is looked up every time
+  const handleDownload = useCallback(async (entry: SketchHistoryEntry) => {
+    setDownloadingId(entry.id);
+    try {
+      const url = await getSketchUrl(entry);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `sketch_${entry.name}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      toast.success("Download started");
+    } catch (error) {
+      console.error("Error downloading sketch:", error);
+      toast.error("This sketch is no longer available");
+    } finally {
+      setDownloadingId(null);
+    }
+  }, [getSketchUrl]);
+
+  const handleRemove = useCallback(async (entry: SketchHistoryEntry) => {
+    await removeEntry(entry.id);
+    toast.success(`Removed ${entry.name} from history`);
+  }, [removeEntry]);
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/app" aria-label="Back to editor">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <History className="h-6 w-6" />
+              History
+            </h1>
+            <p className="text-muted-foreground text-sm">Every sketch you have processed</p>
+          </div>
+        </div>
+
+        <div className="relative w-full sm:w-72">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            placeholder="Search by file name"
+            className="pl-9"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {SKETCH_METHOD_OPTIONS.map(option => (
+          <Badge
+            key={option.value}
+            asChild
+            variant={methods.includes(option.value) ? "default" : "outline"}
+          >
+            <button type="button" onClick={() => handleToggleMethod(option.value)} aria-pressed={methods.includes(option.value)}>
+              {option.label}
+            </button>
+          </Badge>
+        ))}
+        {methods.length > 0 && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setMethods([])}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {groups.map(group => (
+        <section key={group.label} className="space-y-3">
+          <h2 className="text-sm font-medium text-muted-foreground">{group.label}</h2>
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+            {group.entries.map(entry => (
+              <motion.div
+                key={entry.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+              >
+                <Card className="overflow-hidden py-0 gap-0">
+                  <div className="relative aspect-square bg-muted">
+                    {thumbnails[entry.sketchKey] ? (
+                      <PresignedImage
+                        objectKey={entry.sketchKey}
+                        src={thumbnails[entry.sketchKey]}
+                        alt={`Sketch of ${entry.name}`}
+                        loading="lazy"
+                        className="h-full w-full object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-full items-center justify-center">
+                        <ImageIcon className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    )}
+                    <Badge className="absolute top-2 left-2 capitalize" variant="secondary">
+                      {entry.method}
+                    </Badge>
+                  </div>
+                  <CardContent className="p-3">
+                    <p className="truncate text-sm font-medium" title={entry.name}>{entry.name}</p>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(entry.completedAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                        {" · "}
+                        {formatSize(entry.size)}
+                      </p>
+                      <div className="flex">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleDownload(entry)}
+                          disabled={downloadingId === entry.id}
+                          title="Download sketch"
+                        >
+                          {downloadingId === entry.id
+                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                            : <Download className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleRemove(entry)}
+                          title="Remove from history"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
+          </div>
+        </section>
+      ))}
+
+      {!loading && entries.length === 0 && (
+        <div className="flex flex-col items-center justify-center p-12">
+          <div className="rounded-full bg-primary/10 p-4 mb-4">
+            <History className="h-8 w-8 text-primary" />
+          </div>
+          <h3 className="text-xl font-semibold mb-2">
+            {search || methods.length > 0 ? "No matching sketches" : "No sketches yet"}
+          </h3>
+          <p className="text-muted-foreground text-center max-w-md mb-6">
+            {search || methods.length > 0
+              ? "Try a different search or clear the filters"
+              : "Sketches you process will show up here"}
+          </p>
+          <Button asChild>
+            <Link href="/app">Create a sketch</Link>
+          </Button>
+        </div>
+      )}
+
+      <div ref={sentinelRef} className={cn("flex justify-center py-4", !hasMore && "hidden")}>
+        {loading && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+      </div>
+    </div>
+  );
+}
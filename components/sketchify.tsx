@@ -4,6 +4,7 @@ import React, { useState, useCallback, useRef } from "react";
 import { useSketchProcessing } from "@/hooks/useSketchProcessing";
 import { SketchOptions } from "@/components/ui/sketch-options";
 import { SketchResults } from "@/components/ui/sketch-results";
+import { SketchPreview } from "@/components/ui/sketch-preview";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -29,6 +30,8 @@ export function Sketchify() {
     processImage, 
     files: sketchFiles, 
     processing: isProcessing, 
+    cancelFile,
+    cancelAll,
     clearFiles 
   } = useSketchProcessing();
   
@@ -62,7 +65,7 @@ export function Sketchify() {
       });
       
       // Process images
-      await batchProcessImages(uploadResults, {
+      const processedFiles = await batchProcessImages(uploadResults, {
         method: sketchOptions.method,
         config: sketchOptions.config,
         onProgress: (progress: number) => {
@@ -72,7 +75,11 @@ export function Sketchify() {
 
       toast.dismiss("processing");
       
-      toast.success(`Successfully processed ${fileKeys.length} images`);
+      if (processedFiles.some(file => file.status === "cancelled")) {
+        toast.info("Processing cancelled");
+      } else {
+        toast.success(`Successfully processed ${fileKeys.length} images`);
+      }
     } catch (error: any) {
       console.error("Error processing files:", error);
       toast.error("Failed to process files", error.detail);
@@ -99,6 +106,7 @@ export function Sketchify() {
         {
           method: sketchOptions.method,
           config: sketchOptions.config,
+          contentHash: file.contentHash,
         }
       );
       
@@ -130,7 +138,6 @@ export function Sketchify() {
             <TabsContent value="upload" className="space-y-4">
               <FileUpload
                 onUploadComplete={handleUploadComplete}
-                maxFiles={10}
                 maxSize={5 * 1024 * 1024} // 5MB
                 disabled={processing}
                 prefix="sketches"
@@ -145,12 +152,16 @@ export function Sketchify() {
               />
             </TabsContent>
             
-            <TabsContent value="options">
+            <TabsContent value="options" className="space-y-4">
               <SketchOptions
                 onOptionsChange={handleOptionsChange}
                 defaultMethod={sketchOptions.method}
                 defaultConfig={sketchOptions.config}
               />
+              <SketchPreview
+                method={sketchOptions.method}
+                config={sketchOptions.config}
+              />
             </TabsContent>
           </Tabs>
         </CardContent>
@@ -168,9 +179,15 @@ export function Sketchify() {
             <SketchResults
               files={sketchFiles}
               onRetry={handleRetry}
+              onCancel={cancelFile}
             />
             
-            <div className="flex justify-end mt-4">
+            <div className="flex justify-end gap-2 mt-4">
+              {(processing || isProcessing) && (
+                <Button variant="outline" onClick={cancelAll}>
+                  Cancel All
+                </Button>
+              )}
               <Button
                 variant="outline"
                 onClick={clearFiles}
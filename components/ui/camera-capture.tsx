@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Camera, Loader2, SwitchCamera, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { captureVideoFrame } from "@/lib/image-import";
+import { cn } from "@/lib/utils";
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+type FacingMode = "user" | "environment";
+
+const getCameraErrorMessage = (error: unknown) => {
+  if (error instanceof DOMException) {
+    if (error.name === "NotAllowedError") return "Camera access was denied";
+    if (error.name === "NotFoundError" || error.name === "OverconstrainedError") return "No camera was found";
+    if (error.name === "NotReadableError") return "The camera is in use by another application";
+  }
+  return "Could not start the camera";
+};
+
+export function CameraCapture({ onCapture, onClose, className }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>("environment");
+  const [ready, setReady] = useState(false);
+  const [capturing, setCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Restart the stream whenever the camera is switched, and release it on close
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    setReady(false);
+    setError(null);
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        await video.play();
+        setReady(true);
+      })
+      .catch((cameraError) => {
+        if (cancelled) return;
+        console.error("Error starting camera:", cameraError);
+        setError(getCameraErrorMessage(cameraError));
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [facingMode]);
+
+  const handleCapture = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || !ready) return;
+
+    setCapturing(true);
+    try {
+      onCapture(await captureVideoFrame(video));
+    } catch (captureError) {
+      console.error("Error capturing photo:", captureError);
+      setError(captureError instanceof Error ? captureError.message : "Could not capture a photo");
+    } finally {
+      setCapturing(false);
+    }
+  }, [ready, onCapture]);
+
+  return (
+    <div className={cn("space-y-3 rounded-md border p-3", className)}>
+      <div className="relative overflow-hidden rounded-md bg-black aspect-video">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={cn(
+            "h-full w-full object-contain",
+            // The front camera is mirrored like a mirror would be; the captured photo is not
+            facingMode === "user" && "-scale-x-100"
+          )}
+        />
+        {!ready && !error && (
+          <div className="absolute inset-0 flex items-center justify-center text-white/80">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-white/80">
+            {error}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="outline" size="sm" onClick={onClose}>
+          <X className="mr-2 h-4 w-4" />
+          Close
+        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setFacingMode((mode) => (mode === "user" ? "environment" : "user"))}
+            disabled={capturing}
+          >
+            <SwitchCamera className="mr-2 h-4 w-4" />
+            Switch
+          </Button>
+          <Button size="sm" onClick={handleCapture} disabled={!ready || capturing}>
+            {capturing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Camera className="mr-2 h-4 w-4" />
+            )}
+            Take Photo
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
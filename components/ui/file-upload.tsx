@@ -1,11 +1,20 @@
 "use client";
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
+import { CameraCapture } from '@/components/ui/camera-capture';
 import { useDirectUpload } from '@/hooks/useDirectUpload';
 import { useFileUpload } from '@/contexts/file-upload-context';
+import { usePlanLimits } from '@/hooks/usePlanLimits';
+import { StoredMultipartUpload } from '@/lib/upload-store';
+import { isNormalizableImage, normalizeImage, NormalizedImageFormat } from '@/lib/image';
+import { DECODABLE_IMAGE_ACCEPT, decodeImage, needsDecoding } from '@/lib/image-decode';
+import { fetchImageFromUrl, getClipboardImages, isCameraSupported, isImportableUrl } from '@/lib/image-import';
+import { getFilesFromDropEvent, getRelativePath, unpackZipFile } from '@/lib/folder-import';
+import { isZipFile } from '@/lib/zip';
 import { 
   Loader2, 
   UploadCloud, 
@@ -14,6 +23,8 @@ import {
   AlertCircle, 
   Trash2, 
   RefreshCw,
+  Camera,
+  Link as LinkIcon,
   File as FileIcon,
   Image as ImageIcon,
   FileSpreadsheet,
@@ -36,10 +47,23 @@ declare global {
   }
 }
 
+// A successful upload, named after the file the user picked
+export interface UploadedFile {
+  key: string;
+  name: string;
+  size: number;
+  hash?: string;
+  // Path inside the dropped folder or archive
+  path?: string;
+  // Id the file had in the upload list
+  fileId?: string;
+}
+
 export interface FileUploadProps {
-  onUploadComplete?: (fileKeys: string[]) => void;
+  onUploadComplete?: (fileKeys: string[], files?: UploadedFile[]) => void;
   onUploadStart?: () => void;
   onUploadProgress?: (progress: number) => void;
+  // Files per batch; defaults to the limit of the user's plan
   maxFiles?: number;
   maxSize?: number; // in bytes
   accept?: Record<string, string[]>;
@@ -52,6 +76,26 @@ export interface FileUploadProps {
   autoUpload?: boolean;
   description?: string;
   initialFileKeys?: string[];
+  // Files for which this returns true are handed to onLocalFiles instead of being uploaded
+  processLocally?: (file: File) => boolean;
+  onLocalFiles?: (files: File[], fileIds: string[]) => void;
+  // Re-encode photos upright and without metadata before they are queued;
+  // maxSize then applies to the re-encoded file
+  normalizeImages?: boolean;
+  maxImageDimension?: number;
+  imageFormat?: NormalizedImageFormat;
+  imageQuality?: number; // 0 to 1
+  // Extra image sources, all fed through the same preparation as dropped files
+  allowPaste?: boolean;
+  allowUrlImport?: boolean;
+  allowCamera?: boolean;
+  // Unpack dropped .zip archives and keep the images inside
+  allowArchives?: boolean;
+  // Listed files ticked for bulk edits; the list shows checkboxes when this is handled
+  selectedFileIds?: string[];
+  onSelectedFileIdsChange?: (fileIds: string[]) => void;
+  // Shown under a listed file, e.g. settings that only apply to it
+  renderFileDetails?: (fileId: string, file: File) => React.ReactNode;
 }
 
 // Helper function to get appropriate icon for file type
@@ -73,6 +117,17 @@ const getFileIcon = (file: File) => {
   }
 };
 
+// Helper function to check imported files against the accept map, as the dropzone does for picked files
+const isAcceptedFile = (file: File, accept: Record<string, string[]>) => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  
+  return Object.entries(accept).some(([type, extensions]) =>
+    type === file.type ||
+    (type.endsWith('/*') && file.type.startsWith(type.slice(0, -1))) ||
+    extensions.includes(extension)
+  );
+};
+
 // Helper function to format file size
 const formatFileSize = (bytes: number) => {
   if (bytes < 1024) {
@@ -88,7 +143,7 @@ export function FileUpload({
   onUploadComplete,
   onUploadStart,
   onUploadProgress,
-  maxFiles = 10,
+  maxFiles,
   maxSize = 1024 * 1024 * 1024, // 100MB default
   accept = {
     'application/pdf': ['.pdf'],
@@ -97,6 +152,8 @@ export function FileUpload({
     'image/gif': ['.gif'],
     'image/webp': ['.webp'],
     'image/avif': ['.avif'],
+    // Decoded to JPEG in the browser before upload
+    ...DECODABLE_IMAGE_ACCEPT,
     'application/msword': ['.doc'],
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
     'application/vnd.ms-excel': ['.xls'],
@@ -124,13 +181,63 @@ export function FileUpload({
   showFileList = true,
   autoUpload = false,
   description = 'Maximum file size: 100MB. Accepted formats: PDF, JPG, PNG, DOC, DOCX, XLS, XLSX',
-  initialFileKeys = []
+  initialFileKeys = [],
+  processLocally,
+  onLocalFiles,
+  normalizeImages = false,
+  maxImageDimension = 4096,
+  imageFormat = 'image/webp',
+  imageQuality = 0.9,
+  allowPaste = true,
+  allowUrlImport = true,
+  allowCamera = true,
+  allowArchives = true,
+  selectedFileIds = [],
+  onSelectedFileIdsChange,
+  renderFileDetails
 }: FileUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
+  // Files being decoded or normalised before they are added
+  const [preparation, setPreparation] = useState<{
+    action: 'Unpacking' | 'Preparing';
+    current: number;
+    total: number;
+    fileName: string;
+  } | null>(null);
+  const isPreparing = preparation !== null;
+  // Size of each file before normalisation, to report the bytes saved
+  const originalSizes = useRef(new WeakMap<File, number>());
+  // Name the user picked for files that were converted or renamed on the way
+  const originalNames = useRef(new WeakMap<File, string>());
+  // Path inside a dropped folder or archive, carried over to the prepared file
+  const relativePaths = useRef(new WeakMap<File, string>());
   const [uploadedFileKeys, setUploadedFileKeys] = useState<string[]>(initialFileKeys || []);
   const [overallProgress, setOverallProgress] = useState(0);
   
-  const { uploadFiles, cancelUpload, cancelAllUploads } = useDirectUpload();
+  const [resumableUploads, setResumableUploads] = useState<StoredMultipartUpload[]>([]);
+  
+  // The plan is only looked up when the caller does not set a limit
+  const { limits } = usePlanLimits(maxFiles === undefined);
+  const fileLimit = maxFiles ?? limits.maxFilesPerBatch;
+  
+  const dropzoneAccept = useMemo(
+    () => allowArchives ? { ...accept, 'application/zip': ['.zip'] } : accept,
+    [accept, allowArchives]
+  );
+  
+  const [imageUrl, setImageUrl] = useState('');
+  const [isFetchingUrl, setIsFetchingUrl] = useState(false);
+  // Only offered once a webcam has been found, which can only be checked in the browser
+  const [hasCamera, setHasCamera] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  
+  const {
+    uploadFiles,
+    cancelUpload,
+    cancelAllUploads,
+    discardUpload,
+    getResumableUploads,
+  } = useDirectUpload();
   
   // Use the file upload context
   const fileUploadContext = useFileUpload();
@@ -148,12 +255,30 @@ export function FileUpload({
       setUploadedFileKeys(initialFileKeys);
     }
     
+    // Interrupted multipart uploads pick up where they stopped once the same file is added again
+    getResumableUploads().then(setResumableUploads);
+    
     // Clean up when component unmounts
     return () => {
       cancelAllUploads();
     };
   }, []);
   
+  // Forget the selection of files that are no longer listed
+  useEffect(() => {
+    if (!onSelectedFileIdsChange) return;
+    const listedIds = selectedFileIds.filter(fileId => fileUploadContext.files.has(fileId));
+    if (listedIds.length !== selectedFileIds.length) {
+      onSelectedFileIdsChange(listedIds);
+    }
+  }, [fileUploadContext.files, selectedFileIds, onSelectedFileIdsChange]);
+  
+  const toggleSelected = (fileId: string) => {
+    onSelectedFileIdsChange?.(selectedFileIds.includes(fileId)
+      ? selectedFileIds.filter(id => id !== fileId)
+      : [...selectedFileIds, fileId]);
+  };
+  
   // Calculate overall progress whenever individual file progress changes
   useEffect(() => {
     if (files.length === 0) {
@@ -168,9 +293,100 @@ export function FileUpload({
     onUploadProgress?.(avgProgress);
   }, [fileProgress, files.length, onUploadProgress]);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const expandedFiles: File[] = [];
+    
+    // Archives are replaced by the supported images inside them
+    for (const file of acceptedFiles) {
+      if (!allowArchives || !isZipFile(file)) {
+        expandedFiles.push(file);
+        continue;
+      }
+      
+      try {
+        const unpacked = await unpackZipFile(
+          file,
+          entry => isAcceptedFile(entry, accept),
+          (current, total, fileName) => setPreparation({ action: 'Unpacking', current, total, fileName })
+        );
+        if (unpacked.length === 0) {
+          toast.error(`${file.name} contains no supported images`);
+        }
+        expandedFiles.push(...unpacked);
+      } catch (error) {
+        console.error(`Error unpacking ${file.name}:`, error);
+        toast.error(`Could not unpack ${file.name}: ${error instanceof Error ? error.message : 'invalid archive'}`);
+      }
+    }
+    
+    // Keep the batch within the plan limit, counting files that are already listed
+    const remaining = Math.max(0, fileLimit - fileUploadContext.files.size);
+    if (expandedFiles.length > remaining) {
+      toast.error(`Up to ${fileLimit} files can be added per batch, ${expandedFiles.length - remaining} were skipped`);
+    }
+    const batchFiles = expandedFiles.slice(0, remaining);
+    batchFiles.forEach(file => {
+      const path = getRelativePath(file);
+      if (path) relativePaths.current.set(file, path);
+    });
+    
+    const filesToPrepare = batchFiles.filter(file =>
+      needsDecoding(file) || (normalizeImages && isNormalizableImage(file))
+    );
+    const droppedFiles: File[] = [];
+    
+    // Prepare images one at a time, decoding several large images at once can exhaust memory
+    for (const file of batchFiles) {
+      if (!filesToPrepare.includes(file)) {
+        droppedFiles.push(file);
+        continue;
+      }
+      
+      setPreparation({
+        action: 'Preparing',
+        current: filesToPrepare.indexOf(file) + 1,
+        total: filesToPrepare.length,
+        fileName: file.name,
+      });
+      
+      let prepared = file;
+      
+      // HEIC and RAW files are converted to JPEG, without that they cannot be processed at all
+      if (needsDecoding(file)) {
+        try {
+          prepared = (await decodeImage(file)).file;
+        } catch (error) {
+          console.error(`Error decoding ${file.name}:`, error);
+          toast.error(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'unsupported image'}`);
+          continue;
+        }
+      }
+      
+      if (normalizeImages && isNormalizableImage(prepared)) {
+        try {
+          prepared = (await normalizeImage(prepared, {
+            maxDimension: maxImageDimension,
+            format: imageFormat,
+            quality: imageQuality,
+          })).file;
+        } catch (error) {
+          console.warn(`Could not normalise ${file.name}, keeping the original:`, error);
+        }
+      }
+      
+      if (prepared !== file) {
+        originalSizes.current.set(prepared, file.size);
+        originalNames.current.set(prepared, file.name);
+        const path = relativePaths.current.get(file);
+        if (path) relativePaths.current.set(prepared, path);
+      }
+      droppedFiles.push(prepared);
+    }
+    
+    setPreparation(null);
+    
     // Validate file size
-    const validFiles = acceptedFiles.filter(file => {
+    const validFiles = droppedFiles.filter(file => {
       if (file.size > maxSize) {
         toast.error(`File ${file.name} exceeds ${formatFileSize(maxSize)}`);
         return false;
@@ -178,32 +394,111 @@ export function FileUpload({
       return true;
     });
 
-    // Add files to context (which now checks for duplicates internally)
-    fileUploadContext.addFiles(validFiles);
+    // Add files to context, which skips files whose contents are already listed
+    const { duplicates } = await fileUploadContext.addFiles(validFiles);
+    if (duplicates.length > 0) {
+      toast.info(
+        duplicates.length === 1
+          ? `${duplicates[0].name} is already in the list`
+          : `${duplicates.length} files are already in the list`
+      );
+    }
     
     // Auto upload if enabled
     if (autoUpload && validFiles.length > 0) {
       handleUpload();
     }
-  }, [maxSize, autoUpload, toast, fileUploadContext]);
+  }, [maxSize, autoUpload, toast, fileUploadContext, normalizeImages, maxImageDimension, imageFormat, imageQuality, allowArchives, accept, fileLimit]);
+
+  // Feed files from the other sources through onDrop, dropping types the dropzone would reject
+  const importFiles = useCallback(async (importedFiles: File[]) => {
+    const acceptedFiles = importedFiles.filter(file => isAcceptedFile(file, accept));
+    const rejectedCount = importedFiles.length - acceptedFiles.length;
+    if (rejectedCount > 0) {
+      toast.error(`${rejectedCount} file(s) are not an accepted format`);
+    }
+    if (acceptedFiles.length > 0) {
+      await onDrop(acceptedFiles);
+    }
+  }, [accept, onDrop]);
+  
+  const isBusy = disabled || isUploading || isPreparing;
+  
+  // Take images pasted anywhere on the page, unless a text field wants the paste
+  useEffect(() => {
+    if (!allowPaste || isBusy) return;
+    
+    const handlePaste = (event: ClipboardEvent) => {
+      const pastedFiles = getClipboardImages(event.clipboardData);
+      if (pastedFiles.length === 0) return;
+      
+      event.preventDefault();
+      importFiles(pastedFiles);
+    };
+    
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [allowPaste, isBusy, importFiles]);
+  
+  useEffect(() => {
+    if (!allowCamera || !isCameraSupported()) return;
+    
+    navigator.mediaDevices.enumerateDevices()
+      .then(devices => setHasCamera(devices.some(device => device.kind === 'videoinput')))
+      .catch(() => setHasCamera(false));
+  }, [allowCamera]);
+  
+  const handleUrlImport = useCallback(async () => {
+    if (!isImportableUrl(imageUrl)) {
+      toast.error('Enter a valid http or https URL');
+      return;
+    }
+    
+    setIsFetchingUrl(true);
+    try {
+      const file = await fetchImageFromUrl(imageUrl);
+      await importFiles([file]);
+      setImageUrl('');
+    } catch (error) {
+      console.error('Error importing image from URL:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import image');
+    } finally {
+      setIsFetchingUrl(false);
+    }
+  }, [imageUrl, importFiles]);
+  
+  const handleCameraCapture = useCallback(async (file: File) => {
+    setShowCamera(false);
+    await importFiles([file]);
+  }, [importFiles]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    maxFiles,
-    maxSize,
-    accept,
-    disabled: disabled || isUploading,
+    // Folders and archives expand into many files, so the limit is applied in onDrop
+    getFilesFromEvent: getFilesFromDropEvent,
+    // Oversized photos may fit once normalised, so the size is checked in onDrop instead
+    maxSize: normalizeImages ? undefined : maxSize,
+    accept: dropzoneAccept,
+    disabled: isBusy,
   });
 
   const removeFile = useCallback((fileId: string) => {
+    const status = fileUploadContext.uploads.get(fileId)?.status;
+    const file = fileUploadContext.getFileById(fileId);
+    
     // Cancel upload if in progress
-    if (fileUploadContext.uploads.get(fileId)?.status === 'uploading') {
+    if (status === 'uploading') {
       cancelUpload(fileId);
     }
     
+    // A removed file should not resume later, so drop any parts already sent
+    if (file && status !== 'success') {
+      discardUpload(file, prefix).then(() => getResumableUploads().then(setResumableUploads));
+    }
+    
     // Remove from context
     fileUploadContext.removeFile(fileId);
-  }, [fileUploadContext, cancelUpload]);
+  }, [fileUploadContext, cancelUpload, discardUpload, getResumableUploads, prefix]);
 
   // Function to reset the component state
   const resetFileUpload = useCallback(() => {
@@ -214,20 +509,36 @@ export function FileUpload({
   }, [fileUploadContext]);
 
   const handleUpload = async () => {
-    const filesToUpload = Array.from(fileUploadContext.files.values()).filter(file => {
-      const fileEntries = Array.from(fileUploadContext.files.entries());
-      const fileId = fileEntries.find(([_, f]) => f.name === file.name && f.size === file.size)?.[0];
-      if (!fileId) return false;
-      
-      const upload = fileUploadContext.uploads.get(fileId);
-      return !upload || upload.status !== 'success';
-    });
+    let filesToUpload = Array.from(fileUploadContext.files.entries())
+      .filter(([fileId]) => fileUploadContext.uploads.get(fileId)?.status !== 'success')
+      .map(([_, file]) => file);
     
     if (filesToUpload.length === 0) {
       toast.error('No files to upload');
       return [];
     }
     
+    // Hand off files that stay in the browser and mark them as done
+    if (processLocally && onLocalFiles) {
+      const localFiles = filesToUpload.filter(file => processLocally(file));
+      
+      if (localFiles.length > 0) {
+        const localEntries = Array.from(fileUploadContext.files.entries())
+          .filter(([_, file]) => localFiles.includes(file));
+        localEntries.forEach(([fileId]) => {
+          fileUploadContext.setUploadStatus(fileId, 'success');
+          fileUploadContext.setProgress(fileId, 100);
+        });
+        
+        onLocalFiles(localEntries.map(([_, file]) => file), localEntries.map(([fileId]) => fileId));
+        filesToUpload = filesToUpload.filter(file => !localFiles.includes(file));
+        
+        if (filesToUpload.length === 0) {
+          return [];
+        }
+      }
+    }
+    
     setIsUploading(true);
     onUploadStart?.();
     
@@ -242,6 +553,8 @@ export function FileUpload({
           // which updates the context
         },
         maxConcurrentUploads: 3, // Limit concurrent uploads
+        getOriginalName: (file: File) => originalNames.current.get(file),
+        getRelativePath: (file: File) => relativePaths.current.get(file),
       });
       
       // Filter successful uploads and get their keys
@@ -253,13 +566,23 @@ export function FileUpload({
       
       // Check if any uploads failed
       const failedCount = results.length - successfulUploads.length;
+      const resumedCount = successfulUploads.filter(result => result.resumed).length;
       if (failedCount > 0) {
         toast.error(`${failedCount} file(s) failed to upload. Please try again.`);
+      } else if (resumedCount > 0) {
+        toast.success(`Successfully uploaded ${successfulUploads.length} file(s), ${resumedCount} resumed`);
       } else if (successfulUploads.length > 0) {
         toast.success(`Successfully uploaded ${successfulUploads.length} file(s)`);
       }
       
-      onUploadComplete?.(fileKeys);
+      onUploadComplete?.(fileKeys, successfulUploads.map(result => ({
+        key: result.key,
+        name: result.name || result.key.split('/').pop() || 'Unknown',
+        size: result.size,
+        hash: result.hash,
+        path: result.path,
+        fileId: result.fileId,
+      })));
       return fileKeys;
     } catch (error) {
       console.error('Error uploading files:', error);
@@ -267,6 +590,7 @@ export function FileUpload({
       return [];
     } finally {
       setIsUploading(false);
+      getResumableUploads().then(setResumableUploads);
     }
   };
 
@@ -325,21 +649,107 @@ export function FileUpload({
             <File className="h-10 w-10 text-primary/80 mb-2" />
           </div>
           <p className="text-sm text-primary/80">
-            {isDragActive 
-              ? 'Drop the files here' 
-              : 'Drag and drop files here, or click to select'}
+            {preparation
+              ? `${preparation.action} ${preparation.fileName} (${preparation.current} of ${preparation.total})...`
+              : isDragActive 
+                ? allowArchives ? 'Drop files, folders or ZIP archives here' : 'Drop the files here'
+                : allowPaste
+                  ? 'Drag and drop files here, click to select, or paste an image'
+                  : 'Drag and drop files here, or click to select'}
           </p>
           <p className="text-xs text-primary/80 mt-1">
             {description}
           </p>
+          {preparation && (
+            <Progress
+              value={((preparation.current - 1) / preparation.total) * 100}
+              className="h-1 mt-3 w-2/3"
+            />
+          )}
         </div>
       </div>
 
+      {(allowUrlImport || (allowCamera && hasCamera)) && (
+        <div className="flex flex-col gap-2 sm:flex-row">
+          {allowUrlImport && (
+            <form
+              className="flex flex-grow gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                handleUrlImport();
+              }}
+            >
+              <Input
+                type="url"
+                value={imageUrl}
+                onChange={(event) => setImageUrl(event.target.value)}
+                placeholder="https://example.com/photo.jpg"
+                disabled={isBusy || isFetchingUrl}
+                className="h-8"
+              />
+              <Button
+                type="submit"
+                size="sm"
+                variant="outline"
+                disabled={isBusy || isFetchingUrl || !imageUrl.trim()}
+              >
+                {isFetchingUrl ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <LinkIcon className="mr-2 h-4 w-4" />
+                )}
+                From URL
+              </Button>
+            </form>
+          )}
+          {allowCamera && hasCamera && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowCamera(true)}
+              disabled={isBusy || showCamera}
+            >
+              <Camera className="mr-2 h-4 w-4" />
+              Camera
+            </Button>
+          )}
+        </div>
+      )}
+
+      {showCamera && (
+        <CameraCapture
+          onCapture={handleCameraCapture}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+
+      {resumableUploads.length > 0 && !isUploading && (
+        <div className="flex items-start gap-2 rounded-md border border-blue-200 bg-blue-50 p-3 text-xs text-blue-700">
+          <RefreshCw className="h-4 w-4 shrink-0" />
+          <p>
+            {resumableUploads.length} interrupted upload(s) can be resumed. Add{' '}
+            {resumableUploads.map(upload => upload.fileName).join(', ')} again to continue where{' '}
+            {resumableUploads.length === 1 ? 'it' : 'they'} stopped.
+          </p>
+        </div>
+      )}
+
       {showFileList && files.length > 0 && (
         <div className="border rounded-md p-3 space-y-2">
           <div className="flex items-center justify-between mb-2">
             <div className="flex items-center space-x-2">
-              <h4 className="text-sm font-medium">Selected Files ({files.length})</h4>
+              {onSelectedFileIdsChange && (
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={selectedFileIds.length === files.length}
+                  onChange={() => onSelectedFileIdsChange(
+                    selectedFileIds.length === files.length ? [] : files.map(([fileId]) => fileId)
+                  )}
+                  aria-label="Select all files"
+                />
+              )}
+              <h4 className="text-sm font-medium">Selected Files ({files.length} of {fileLimit})</h4>
             </div>
             <div className="flex space-x-2">
               {!autoUpload && (
@@ -382,6 +792,10 @@ export function FileUpload({
               const progress = fileProgress.get(fileId) || 0;
               const upload = fileUploads.get(fileId);
               const status = upload?.status || 'pending';
+              const originalSize = originalSizes.current.get(file);
+              const originalName = originalNames.current.get(file);
+              const relativePath = relativePaths.current.get(file);
+              const savedBytes = originalSize !== undefined ? originalSize - file.size : 0;
               
               // Determine background color based on status
               const bgColorClass = 
@@ -399,10 +813,19 @@ export function FileUpload({
                   )}
                 >
                   <div className="flex items-center space-x-2 flex-grow mr-2 overflow-hidden">
+                    {onSelectedFileIdsChange && (
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 shrink-0 accent-primary"
+                        checked={selectedFileIds.includes(fileId)}
+                        onChange={() => toggleSelected(fileId)}
+                        aria-label={`Select ${file.name}`}
+                      />
+                    )}
                     {getFileIcon(file)}
                     <div className="flex flex-col flex-grow min-w-0">
                       <div className="flex items-center">
-                        <span className="text-sm truncate mr-2">{file.name}</span>
+                        <span className="text-sm truncate mr-2" title={relativePath}>{relativePath ?? file.name}</span>
                         {status === 'success' && (
                           <TooltipProvider>
                             <Tooltip>
@@ -431,6 +854,12 @@ export function FileUpload({
                       <div className="flex items-center justify-between">
                         <span className="text-xs text-muted-foreground">
                           {formatFileSize(file.size)}
+                          {originalName && originalName !== file.name && ` • from ${originalName}`}
+                          {savedBytes > 0 && originalSize && (
+                            <span className="text-green-600">
+                              {' '}• saved {formatFileSize(savedBytes)} ({Math.round((savedBytes / originalSize) * 100)}%)
+                            </span>
+                          )}
                         </span>
                         {status === 'uploading' && (
                           <span className="text-xs text-blue-500">{progress}%</span>
@@ -442,6 +871,7 @@ export function FileUpload({
                           className="h-1 mt-1" 
                         />
                       )}
+                      {renderFileDetails?.(fileId, file)}
                     </div>
                   </div>
                   <div className="flex items-center space-x-1">
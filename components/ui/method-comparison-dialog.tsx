@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { SKETCH_METHOD_OPTIONS, SketchConfig, SketchFile, SketchMethod } from "@/types";
+import { useZoomPan } from "@/hooks/useZoomPan";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PresignedImage } from "@/components/ui/presigned-image";
+import { ZoomPanControls, ZoomPanLayer, ZoomPanViewport } from "@/components/ui/zoom-pan";
+import { cn } from "@/lib/utils";
+
+interface MethodComparisonDialogProps {
+  // The dialog is open while there is a file to compare
+  file: SketchFile | null;
+  config?: SketchConfig;
+  compareMethods: (
+    file: SketchFile,
+    config: SketchConfig | undefined,
+    options: { signal?: AbortSignal; onResult?: (candidate: SketchFile) => void }
+  ) => Promise<SketchFile[]>;
+  onKeep: (sourceId: string, candidates: SketchFile[]) => void;
+  onDiscard: (candidates: SketchFile[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * One image rendered with every method, zoomed and panned together, from
+ * which any number of results can be kept as new cards
+ */
+export function MethodComparisonDialog({
+  file,
+  config,
+  compareMethods,
+  onKeep,
+  onDiscard,
+  onClose,
+}: MethodComparisonDialogProps) {
+  const zoomPan = useZoomPan();
+  const [results, setResults] = useState<Partial<Record<SketchMethod, SketchFile>>>({});
+  const [keptIds, setKeptIds] = useState<string[]>([]);
+  // Latest results, released once the comparison ends; kept ones are no longer affected
+  const resultsRef = useRef(results);
+  resultsRef.current = results;
+
+  useEffect(() => {
+    setResults({});
+    setKeptIds([]);
+    if (!file) return;
+
+    const controller = new AbortController();
+    compareMethods(file, config, {
+      signal: controller.signal,
+      onResult: candidate => {
+        // Finished just as the dialog closed
+        if (controller.signal.aborted) {
+          onDiscard([candidate]);
+          return;
+        }
+        setResults(prev => ({ ...prev, [candidate.method]: candidate }));
+      },
+    });
+
+    return () => {
+      controller.abort();
+      onDiscard(Object.values(resultsRef.current).filter((candidate): candidate is SketchFile => candidate !== undefined));
+    };
+  }, [file, config, compareMethods, onDiscard]);
+
+  const candidates = Object.values(results).filter((candidate): candidate is SketchFile => candidate !== undefined);
+  const running = file !== null && candidates.length < SKETCH_METHOD_OPTIONS.length;
+
+  const close = (keep: boolean) => {
+    const kept = keep ? candidates.filter(candidate => keptIds.includes(candidate.id)) : [];
+    if (file && kept.length > 0) onKeep(file.id, kept);
+    onClose();
+  };
+
+  const toggleKept = (id: string) => {
+    setKeptIds(prev => prev.includes(id) ? prev.filter(keptId => keptId !== id) : [...prev, id]);
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={open => !open && close(false)}>
+      <DialogContent className="sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Compare Methods</DialogTitle>
+          <DialogDescription>
+            {file?.name} with the current options. Tick the results to keep; they are added next to the original card.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 md:grid-cols-3">
+          {SKETCH_METHOD_OPTIONS.map(option => {
+            const candidate = results[option.value];
+            const kept = candidate ? keptIds.includes(candidate.id) : false;
+
+            return (
+              <div key={option.value} className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{option.label}</span>
+                    {file?.method === option.value && <Badge variant="outline">Current</Badge>}
+                  </div>
+                  <label className={cn("flex items-center gap-2 text-sm", candidate?.status !== "completed" && "opacity-50")}>
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={kept}
+                      disabled={candidate?.status !== "completed"}
+                      onChange={() => candidate && toggleKept(candidate.id)}
+                    />
+                    Keep
+                  </label>
+                </div>
+
+                <ZoomPanViewport
+                  zoomPan={zoomPan}
+                  className={cn("h-[50vh] rounded-md bg-muted", kept && "ring-2 ring-primary")}
+                >
+                  {candidate?.status === "completed" && candidate.sketchUrl ? (
+                    <ZoomPanLayer zoomPan={zoomPan}>
+                      <PresignedImage
+                        objectKey={candidate.sketchKey}
+                        src={candidate.sketchUrl}
+                        alt={`${option.label} sketch of ${candidate.name}`}
+                        draggable={false}
+                        onLoad={e => zoomPan.setContentSize({
+                          width: e.currentTarget.naturalWidth,
+                          height: e.currentTarget.naturalHeight,
+                        })}
+                      />
+                    </ZoomPanLayer>
+                  ) : candidate ? (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center p-4 text-center">
+                      <AlertCircle className="h-8 w-8 text-destructive" />
+                      <p className="mt-2 text-sm text-muted-foreground">{candidate.error || "Processing failed"}</p>
+                    </div>
+                  ) : (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                  )}
+                </ZoomPanViewport>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="items-center sm:justify-between">
+          <ZoomPanControls zoomPan={zoomPan} />
+          <div className="flex items-center gap-2">
+            {running && (
+              <span className="text-sm text-muted-foreground">
+                {candidates.length} of {SKETCH_METHOD_OPTIONS.length} done
+              </span>
+            )}
+            <Button variant="outline" onClick={() => close(false)}>
+              Discard All
+            </Button>
+            <Button onClick={() => close(true)} disabled={keptIds.length === 0}>
+              Keep {keptIds.length > 0 ? `${keptIds.length} ` : ""}Selected
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import React from "react";
+import { usePresignedUrl } from "@/hooks/usePresignedUrl";
+
+interface PresignedImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, "src"> {
+  // Storage key the link was signed for, used to ask for a new one
+  objectKey?: string;
+  src: string;
+  alt: string;
+}
+
+/**
+ * Image of a stored object whose link is refreshed before it expires and
+ * retried once with a new link if it fails to load
+ */
+export function PresignedImage({ objectKey, src, alt, onError, onLoad, ...props }: PresignedImageProps) {
+  const { url, handleError, handleLoad } = usePresignedUrl(objectKey, src);
+
+  return (
+    <img
+      {...props}
+      src={url}
+      alt={alt}
+      onError={e => {
+        handleError();
+        onError?.(e);
+      }}
+      onLoad={e => {
+        handleLoad();
+        onLoad?.(e);
+      }}
+    />
+  );
+}
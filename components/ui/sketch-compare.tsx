@@ -0,0 +1,172 @@
+"use client";
+
+import React from "react";
+import { Columns2, Layers, SquareSplitHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ZoomPanLayer, ZoomPanViewport } from "@/components/ui/zoom-pan";
+import { PresignedImage } from "@/components/ui/presigned-image";
+import { ZoomPan } from "@/hooks/useZoomPan";
+import { cn } from "@/lib/utils";
+
+export type CompareMode = "slider" | "side-by-side" | "onion";
+
+export const COMPARE_MODES: { value: CompareMode; label: string; shortcut: string; icon: React.ElementType }[] = [
+  { value: "slider", label: "Divider", shortcut: "d", icon: SquareSplitHorizontal },
+  { value: "side-by-side", label: "Side by side", shortcut: "s", icon: Columns2 },
+  { value: "onion", label: "Onion skin", shortcut: "o", icon: Layers },
+];
+
+interface SketchCompareProps {
+  zoomPan: ZoomPan;
+  originalUrl: string;
+  sketchUrl: string;
+  // Storage keys of the two images, to refresh their links
+  originalKey?: string;
+  sketchKey?: string;
+  name: string;
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  // Divider position, or the sketch opacity in onion-skin mode, from 0 to 100
+  position: number;
+  onPositionChange: (position: number) => void;
+  className?: string;
+}
+
+const clampPosition = (value: number) => Math.min(100, Math.max(0, value));
+
+const Label = ({ children, side }: { children: React.ReactNode; side: "left" | "right" }) => (
+  <span
+    className={cn(
+      "absolute top-2 z-20 rounded bg-black/50 px-2 py-0.5 text-xs text-white pointer-events-none",
+      side === "left" ? "left-2" : "right-2"
+    )}
+  >
+    {children}
+  </span>
+);
+
+/**
+ * Original and sketch shown together, zoomed and panned as one
+ */
+export function SketchCompare({
+  zoomPan,
+  originalUrl,
+  sketchUrl,
+  originalKey,
+  sketchKey,
+  name,
+  mode,
+  onModeChange,
+  position,
+  onPositionChange,
+  className,
+}: SketchCompareProps) {
+  // The sketch decides the size both images are drawn at
+  const handleSketchLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    zoomPan.setContentSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+  };
+
+  const sketchImage = (
+    <PresignedImage objectKey={sketchKey} src={sketchUrl} alt={`Sketch of ${name}`} draggable={false} onLoad={handleSketchLoad} />
+  );
+  const originalImage = <PresignedImage objectKey={originalKey} src={originalUrl} alt={`Original ${name}`} draggable={false} />;
+
+  // The divider is dragged on its own, without panning the image under it
+  const moveDivider = (e: React.PointerEvent<HTMLDivElement>) => {
+    const viewport = e.currentTarget.closest("[data-slot=zoom-pan-viewport]");
+    const rect = viewport?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    onPositionChange(clampPosition(((e.clientX - rect.left) / rect.width) * 100));
+  };
+
+  return (
+    <div className={cn("flex flex-col items-center gap-3", className)}>
+      <div className="flex gap-1 rounded-full bg-background/80 p-1 backdrop-blur-sm">
+        {COMPARE_MODES.map(option => {
+          const Icon = option.icon;
+          return (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={mode === option.value ? "default" : "ghost"}
+              onClick={() => onModeChange(option.value)}
+              className="gap-2 rounded-full"
+              title={`${option.label} (${option.shortcut.toUpperCase()})`}
+            >
+              <Icon className="h-4 w-4" />
+              {option.label}
+            </Button>
+          );
+        })}
+      </div>
+
+      {mode === "side-by-side" ? (
+        <div className="grid w-full flex-1 min-h-0 grid-cols-2 gap-2">
+          <ZoomPanViewport zoomPan={zoomPan} className="rounded-md">
+            <ZoomPanLayer zoomPan={zoomPan}>{originalImage}</ZoomPanLayer>
+            <Label side="left">Original</Label>
+          </ZoomPanViewport>
+          <ZoomPanViewport zoomPan={zoomPan} className="rounded-md">
+            <ZoomPanLayer zoomPan={zoomPan}>{sketchImage}</ZoomPanLayer>
+            <Label side="right">Sketch</Label>
+          </ZoomPanViewport>
+        </div>
+      ) : (
+        <ZoomPanViewport zoomPan={zoomPan} className="w-full flex-1 min-h-0 rounded-md">
+          {mode === "onion" ? (
+            <>
+              <ZoomPanLayer zoomPan={zoomPan}>{originalImage}</ZoomPanLayer>
+              <ZoomPanLayer zoomPan={zoomPan} style={{ opacity: position / 100 }}>{sketchImage}</ZoomPanLayer>
+            </>
+          ) : (
+            <>
+              <ZoomPanLayer zoomPan={zoomPan}>{sketchImage}</ZoomPanLayer>
+              {/* Clipped in viewport coordinates, so the divider stays put while zooming */}
+              <ZoomPanLayer zoomPan={zoomPan} style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+                {originalImage}
+              </ZoomPanLayer>
+
+              <div
+                className="absolute inset-y-0 z-10 w-0.5 -translate-x-1/2 bg-white shadow-[0_0_4px_rgba(0,0,0,0.5)] pointer-events-none"
+                style={{ left: `${position}%` }}
+              >
+                <div
+                  role="slider"
+                  tabIndex={0}
+                  aria-label="Comparison divider"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(position)}
+                  className="absolute top-1/2 left-1/2 h-8 w-8 -translate-x-1/2 -translate-y-1/2 cursor-ew-resize rounded-full border-2 border-white bg-black/40 pointer-events-auto outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  onPointerDown={e => {
+                    e.stopPropagation();
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                  }}
+                  onPointerMove={e => e.currentTarget.hasPointerCapture(e.pointerId) && moveDivider(e)}
+                />
+              </div>
+            </>
+          )}
+          <Label side="left">Original</Label>
+          <Label side="right">Sketch</Label>
+        </ZoomPanViewport>
+      )}
+
+      {mode === "onion" && (
+        <div className="flex w-64 items-center gap-3 text-xs text-muted-foreground">
+          <span>Original</span>
+          <Slider
+            min={0}
+            max={100}
+            step={1}
+            value={[position]}
+            onValueChange={([value]) => onPositionChange(value)}
+            aria-label="Sketch opacity"
+          />
+          <span>Sketch</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, FileOutput } from "lucide-react";
+import { SketchFile } from "@/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMAT_OPTIONS,
+  ExportFormat,
+  ExportOptions,
+  PdfPageSize,
+  exportSketchImage,
+  exportSketchesAsPdf,
+  isExportFormatSupported,
+} from "@/lib/sketch-export";
+import {
+  DEFAULT_FILE_NAME_PATTERN,
+  downloadBlob,
+  downloadSketchArchive,
+  formatSketchFileName,
+} from "@/lib/sketch-archive";
+
+const DPI_OPTIONS = [72, 150, 300, 600];
+
+const PAGE_SIZE_OPTIONS: { value: PdfPageSize; label: string }[] = [
+  { value: "fit", label: "Fit to sketch" },
+  { value: "a4", label: "A4" },
+  { value: "letter", label: "US Letter" },
+];
+
+interface SketchExportDialogProps {
+  // The dialog is open while there are files to export
+  files: SketchFile[] | null;
+  onClose: () => void;
+  fileNamePattern?: string;
+}
+
+export function SketchExportDialog({
+  files,
+  onClose,
+  fileNamePattern = DEFAULT_FILE_NAME_PATTERN,
+}: SketchExportDialogProps) {
+  const [options, setOptions] = useState<Required<ExportOptions>>(DEFAULT_EXPORT_OPTIONS);
+  const [supportedFormats, setSupportedFormats] = useState<ExportFormat[]>(["image/png", "application/pdf"]);
+  const [progress, setProgress] = useState<{ current: number; total: number } | null>(null);
+
+  const count = files?.length ?? 0;
+  const formatOption = EXPORT_FORMAT_OPTIONS.find(option => option.value === options.format);
+  const isPdf = options.format === "application/pdf";
+
+  // Encoder support only needs checking once per session
+  useEffect(() => {
+    Promise.all(
+      EXPORT_FORMAT_OPTIONS.map(async option =>
+        (await isExportFormatSupported(option.value)) ? option.value : null
+      )
+    ).then(formats => setSupportedFormats(formats.filter((format): format is ExportFormat => format !== null)));
+  }, []);
+
+  const updateOption = <K extends keyof ExportOptions>(key: K, value: Required<ExportOptions>[K]) => {
+    setOptions(current => ({ ...current, [key]: value }));
+  };
+
+  const handleExport = async () => {
+    if (!files || files.length === 0) return;
+
+    setProgress({ current: 0, total: files.length });
+    try {
+      const baseName = formatSketchFileName(fileNamePattern, files[0], 0).replace(/\.[^.]+$/, "");
+
+      if (isPdf) {
+        const blob = await exportSketchesAsPdf(files, options, (current, total) => setProgress({ current, total }));
+        downloadBlob(blob, files.length === 1 ? `${baseName}.pdf` : `sketches_${new Date().toISOString().slice(0, 10)}.pdf`);
+        toast.success(`Exported ${files.length} ${files.length === 1 ? "sketch" : "sketches"} as PDF`);
+      } else if (files.length === 1) {
+        const { blob, extension } = await exportSketchImage(files[0], options);
+        downloadBlob(blob, `${baseName}.${extension}`);
+        toast.success(`Exported as ${formatOption?.label}`);
+      } else {
+        const result = await downloadSketchArchive(files, {
+          pattern: fileNamePattern,
+          convert: file => exportSketchImage(file, options),
+          exportSettings: { ...options },
+          onProgress: (current, total) => setProgress({ current, total }),
+        });
+
+        if (!result.saved) return;
+        if (result.skipped > 0) {
+          toast.error(`${result.skipped} of ${files.length} sketches could not be exported and were left out`);
+        } else {
+          toast.success(`Exported ${result.written} sketches as ${formatOption?.label}`);
+        }
+      }
+      onClose();
+    } catch (error) {
+      console.error("Error exporting sketches:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export sketches");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={files !== null} onOpenChange={open => !open && progress === null && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export {count === 1 ? "Sketch" : `${count} Sketches`}</DialogTitle>
+          <DialogDescription>
+            {isPdf
+              ? "One sketch per page in a single PDF."
+              : count > 1
+                ? "Converted in your browser and saved as a ZIP archive."
+                : "Converted in your browser."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select
+                value={options.format}
+                onValueChange={value => updateOption("format", value as ExportFormat)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMAT_OPTIONS.map(option => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      disabled={!supportedFormats.includes(option.value)}
+                    >
+                      {option.label}
+                      {!supportedFormats.includes(option.value) && " (not supported)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Resolution</Label>
+              <Select
+                value={String(options.dpi)}
+                onValueChange={value => updateOption("dpi", Number(value))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DPI_OPTIONS.map(dpi => (
+                    <SelectItem key={dpi} value={String(dpi)}>
+                      {dpi} DPI
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {formatOption?.lossy && (
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Quality</Label>
+                <span className="text-sm text-muted-foreground">{Math.round(options.quality * 100)}%</span>
+              </div>
+              <Slider
+                min={10}
+                max={100}
+                step={1}
+                value={[Math.round(options.quality * 100)]}
+                onValueChange={([value]) => updateOption("quality", value / 100)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="export-max-dimension">Maximum dimension (px)</Label>
+            <Input
+              id="export-max-dimension"
+              type="number"
+              min={0}
+              step={100}
+              placeholder="Original size"
+              value={options.maxDimension || ""}
+              onChange={e => updateOption("maxDimension", Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+
+          {isPdf && (
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Page size</Label>
+                <Select
+                  value={options.pageSize}
+                  onValueChange={value => updateOption("pageSize", value as PdfPageSize)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAGE_SIZE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="export-captions"
+                  checked={options.captions}
+                  onCheckedChange={checked => updateOption("captions", checked)}
+                />
+                <Label htmlFor="export-captions">Captions</Label>
+              </div>
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={(progress.current / progress.total) * 100} />
+              <p className="text-xs text-muted-foreground">
+                Exporting {progress.current} of {progress.total}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={progress !== null}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={count === 0 || progress !== null} className="gap-2">
+            {progress ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileOutput className="h-4 w-4" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
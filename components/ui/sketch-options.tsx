@@ -22,7 +22,16 @@ import {
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
-import { SketchMethod, SketchConfig } from "@/types";
+import {
+  SketchMethod,
+  SketchConfig,
+  BLUR_TYPES,
+  NumberSketchParameter,
+  SKETCH_METHOD_OPTIONS,
+  DEFAULT_SKETCH_CONFIG,
+  getSketchParameter,
+  getSketchParameters,
+} from "@/types";
 import {
   Accordion,
   AccordionContent,
@@ -30,21 +39,31 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 
+// Build a number schema from the parameter's declared range
+const rangeSchema = (key: NumberSketchParameter["key"]) => {
+  const parameter = getSketchParameter(key);
+  return z.number().min(parameter.min).max(parameter.max).optional();
+};
+
+// Limits and choices come from the parameter descriptors; `satisfies` fails the
+// build when a key or value type drifts from SketchConfig
+const sketchConfigShape = {
+  sigma_s: rangeSchema("sigma_s"),
+  sigma_r: rangeSchema("sigma_r"),
+  shade_factor: rangeSchema("shade_factor"),
+  kernel_size: rangeSchema("kernel_size"),
+  blur_type: z.enum(BLUR_TYPES).optional(),
+  edge_preserve: z.boolean().optional(),
+  texture_enhance: z.boolean().optional(),
+  contrast: rangeSchema("contrast"),
+  brightness: rangeSchema("brightness"),
+  smoothing_factor: rangeSchema("smoothing_factor"),
+} satisfies { [K in keyof SketchConfig]-?: z.ZodType<SketchConfig[K]> };
+
 // Define the form schema
-const sketchOptionsSchema = z.object({
-  method: z.enum([SketchMethod.BASIC, SketchMethod.ADVANCED, SketchMethod.ARTISTIC]),
-  config: z.object({
-    sigma_s: z.number().min(1).max(200).optional(),
-    sigma_r: z.number().min(0.01).max(1).optional(),
-    shade_factor: z.number().min(0.01).max(1).optional(),
-    kernel_size: z.number().min(3).max(51).optional(),
-    blur_type: z.enum(["gaussian", "median", "bilateral"]).optional(),
-    edge_preserve: z.boolean().optional(),
-    texture_enhance: z.boolean().optional(),
-    contrast: z.number().min(0.5).max(3).optional(),
-    brightness: z.number().min(-50).max(50).optional(),
-    smoothing_factor: z.number().min(0).max(1).optional(),
-  }).optional(),
+export const sketchOptionsSchema = z.object({
+  method: z.nativeEnum(SketchMethod),
+  config: z.object(sketchConfigShape).optional(),
 });
 
 type SketchOptionsValues = z.infer<typeof sketchOptionsSchema>;
@@ -65,21 +84,12 @@ export function SketchOptions({
     resolver: zodResolver(sketchOptionsSchema),
     defaultValues: {
       method: defaultMethod,
-      config: defaultConfig || {
-        sigma_s: 60,
-        sigma_r: 0.07,
-        shade_factor: 0.05,
-        kernel_size: 21,
-        blur_type: "gaussian",
-        edge_preserve: true,
-        texture_enhance: true,
-        contrast: 1.5,
-        brightness: 0,
-        smoothing_factor: 0.9,
-      },
+      config: defaultConfig || { ...DEFAULT_SKETCH_CONFIG },
     },
   });
 
+  const method = form.watch("method");
+
   // Watch for changes and notify parent component
   React.useEffect(() => {
     const subscription = form.watch((value) => {
@@ -110,9 +120,11 @@ export function SketchOptions({
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value={SketchMethod.BASIC}>Basic</SelectItem>
-                  <SelectItem value={SketchMethod.ADVANCED}>Advanced</SelectItem>
-                  <SelectItem value={SketchMethod.ARTISTIC}>Artistic</SelectItem>
+                  {SKETCH_METHOD_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormDescription>
@@ -128,151 +140,82 @@ export function SketchOptions({
             <AccordionTrigger>Advanced Options</AccordionTrigger>
             <AccordionContent>
               <div className="space-y-4 pt-2">
-                {/* Edge Preservation */}
-                <FormField
-                  control={form.control}
-                  name="config.edge_preserve"
-                  render={({ field }) => (
-                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                      <div className="space-y-0.5">
-                        <FormLabel>Edge Preservation</FormLabel>
-                        <FormDescription>
-                          Preserve edges for more natural-looking sketches
-                        </FormDescription>
-                      </div>
-                      <FormControl>
-                        <Switch
-                          checked={field.value}
-                          onCheckedChange={field.onChange}
-                        />
-                      </FormControl>
-                    </FormItem>
-                  )}
-                />
-
-                {/* Texture Enhancement */}
-                <FormField
-                  control={form.control}
-                  name="config.texture_enhance"
-                  render={({ field }) => (
-                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                      <div className="space-y-0.5">
-                        <FormLabel>Texture Enhancement</FormLabel>
-                        <FormDescription>
-                          Enhance texture details in the sketch
-                        </FormDescription>
-                      </div>
-                      <FormControl>
-                        <Switch
-                          checked={field.value}
-                          onCheckedChange={field.onChange}
-                        />
-                      </FormControl>
-                    </FormItem>
-                  )}
-                />
-
-                {/* Blur Type */}
-                <FormField
-                  control={form.control}
-                  name="config.blur_type"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Blur Type</FormLabel>
-                      <Select
-                        onValueChange={field.onChange}
-                        defaultValue={field.value}
-                      >
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select blur type" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="gaussian">Gaussian</SelectItem>
-                          <SelectItem value="median">Median</SelectItem>
-                          <SelectItem value="bilateral">Bilateral</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormDescription>
-                        Different blur types affect the sketch texture
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {/* Contrast */}
-                <FormField
-                  control={form.control}
-                  name="config.contrast"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Contrast: {field.value?.toFixed(1)}</FormLabel>
-                      <FormControl>
-                        <Slider
-                          value={[field.value || 1.5]}
-                          min={0.5}
-                          max={3}
-                          step={0.1}
-                          onValueChange={(values) => field.onChange(values[0])}
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Adjust the contrast of the sketch
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                {getSketchParameters(method).map((parameter) => (
+                  <FormField
+                    key={parameter.key}
+                    control={form.control}
+                    name={`config.${parameter.key}`}
+                    render={({ field }) => {
+                      if (parameter.type === "boolean") {
+                        return (
+                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                            <div className="space-y-0.5">
+                              <FormLabel>{parameter.label}</FormLabel>
+                              <FormDescription>
+                                {parameter.description}
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value as boolean | undefined}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        );
+                      }
 
-                {/* Shade Factor */}
-                <FormField
-                  control={form.control}
-                  name="config.shade_factor"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Shade Intensity: {field.value?.toFixed(2)}</FormLabel>
-                      <FormControl>
-                        <Slider
-                          value={[field.value || 0.05]}
-                          min={0.01}
-                          max={0.5}
-                          step={0.01}
-                          onValueChange={(values) => field.onChange(values[0])}
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Controls the pencil shade intensity
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                      if (parameter.type === "select") {
+                        return (
+                          <FormItem>
+                            <FormLabel>{parameter.label}</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              defaultValue={field.value as string | undefined}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder={`Select ${parameter.label.toLowerCase()}`} />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {parameter.options.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              {parameter.description}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        );
+                      }
 
-                {/* Smoothing Factor */}
-                <FormField
-                  control={form.control}
-                  name="config.smoothing_factor"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Smoothing: {field.value?.toFixed(1)}</FormLabel>
-                      <FormControl>
-                        <Slider
-                          value={[field.value || 0.9]}
-                          min={0}
-                          max={1}
-                          step={0.1}
-                          onValueChange={(values) => field.onChange(values[0])}
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Adjust the smoothness of the sketch
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                      const value = (field.value as number | undefined) ?? parameter.default;
+                      return (
+                        <FormItem>
+                          <FormLabel>{parameter.label}: {value.toFixed(parameter.precision)}</FormLabel>
+                          <FormControl>
+                            <Slider
+                              value={[value]}
+                              min={parameter.min}
+                              max={parameter.max}
+                              step={parameter.step}
+                              onValueChange={(values) => field.onChange(values[0])}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            {parameter.description}
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
+                  />
+                ))}
               </div>
             </AccordionContent>
           </AccordionItem>
@@ -0,0 +1,194 @@
+"use client";
+
+import React, { useState, useRef } from "react";
+import { Bookmark, Download, Upload, Save, Trash2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSketchPresets } from "@/hooks/useSketchPresets";
+import { SketchMethod, SketchConfig, SketchPreset, SKETCH_METHOD_OPTIONS } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface SketchPresetsProps {
+  method: SketchMethod;
+  config?: SketchConfig;
+  onApply: (preset: SketchPreset) => void;
+  sync?: boolean;
+  className?: string;
+}
+
+export function SketchPresets({
+  method,
+  config,
+  onApply,
+  sync = false,
+  className,
+}: SketchPresetsProps) {
+  const [selectedPresetId, setSelectedPresetId] = useState<string>("");
+  const [presetName, setPresetName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const {
+    presets,
+    userPresets,
+    savePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+    syncing,
+  } = useSketchPresets({ sync });
+
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+
+  const handleSelect = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) return;
+
+    setSelectedPresetId(presetId);
+    if (!preset.builtIn) {
+      setPresetName(preset.name);
+    }
+    onApply(preset);
+  };
+
+  const handleSave = () => {
+    if (!presetName.trim()) {
+      toast.error("Enter a name for the preset");
+      return;
+    }
+
+    const preset = savePreset(presetName, method, config);
+    setSelectedPresetId(preset.id);
+    toast.success(`Saved preset "${preset.name}"`);
+  };
+
+  const handleDelete = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+
+    deletePreset(selectedPreset.id);
+    setSelectedPresetId("");
+    setPresetName("");
+    toast.success(`Deleted preset "${selectedPreset.name}"`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = await importPresets(file);
+      toast.success(`Imported ${imported.length} preset(s)`);
+    } catch (error) {
+      console.error("Error importing presets:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import presets");
+    }
+  };
+
+  const handleExport = () => {
+    if (userPresets.length === 0) {
+      toast.error("There are no saved presets to export");
+      return;
+    }
+    exportPresets();
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center">
+          <Bookmark className="h-4 w-4 mr-2" />
+          Presets
+        </Label>
+        <div className="flex items-center gap-1">
+          {syncing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => fileInputRef.current?.click()}
+            title="Import presets"
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={handleExport}
+            title="Export presets"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+      </div>
+
+      <Select value={selectedPresetId} onValueChange={handleSelect}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Load a preset" />
+        </SelectTrigger>
+        <SelectContent>
+          {SKETCH_METHOD_OPTIONS.map(methodOption => (
+            <SelectGroup key={methodOption.value}>
+              <SelectLabel>{methodOption.label}</SelectLabel>
+              {presets
+                .filter(preset => preset.method === methodOption.value)
+                .map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                    {preset.builtIn && (
+                      <span className="text-xs text-muted-foreground">Built-in</span>
+                    )}
+                  </SelectItem>
+                ))}
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex gap-2">
+        <Input
+          value={presetName}
+          onChange={(event) => setPresetName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              handleSave();
+            }
+          }}
+          placeholder="Preset name"
+          maxLength={80}
+        />
+        <Button variant="outline" size="icon" onClick={handleSave} title="Save current settings">
+          <Save className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handleDelete}
+          disabled={!selectedPreset || selectedPreset.builtIn}
+          title="Delete preset"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useState, useMemo } from "react";
+import { Loader2, Eye, ImageOff } from "lucide-react";
+import { useFileUpload } from "@/contexts/file-upload-context";
+import { useSketchPreview } from "@/hooks/useSketchPreview";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SketchMethod, SketchConfig } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface SketchPreviewProps {
+  method: SketchMethod;
+  config?: SketchConfig;
+  maxDimension?: number;
+  className?: string;
+}
+
+export function SketchPreview({
+  method,
+  config,
+  maxDimension = 384,
+  className,
+}: SketchPreviewProps) {
+  const fileUploadContext = useFileUpload();
+  const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
+
+  // Only images from the upload queue can be previewed
+  const imageFiles = useMemo(
+    () => Array.from(fileUploadContext.files.entries())
+      .filter(([_, file]) => file.type.startsWith("image/")),
+    [fileUploadContext.files]
+  );
+
+  const activeEntry = imageFiles.find(([id]) => id === selectedFileId) || imageFiles[0];
+  const activeFile = activeEntry?.[1];
+
+  const preview = useSketchPreview(activeFile, method, config, { maxDimension });
+
+  return (
+    <div className={cn("space-y-3 rounded-lg border p-4", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-medium flex items-center">
+          <Eye className="h-4 w-4 mr-2" />
+          Live Preview
+        </h4>
+        <div className="flex items-center gap-2">
+          {preview.stale && preview.url && (
+            <Badge variant="outline">Stale</Badge>
+          )}
+          {preview.url && !preview.stale && (
+            <span className="text-xs text-muted-foreground">
+              {Math.round(preview.duration)} ms • {preview.width}×{preview.height}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {imageFiles.length > 1 && (
+        <Select
+          value={activeEntry?.[0]}
+          onValueChange={setSelectedFileId}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Select an image" />
+          </SelectTrigger>
+          <SelectContent>
+            {imageFiles.map(([fileId, file]) => (
+              <SelectItem key={fileId} value={fileId}>
+                {file.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="relative aspect-square w-full overflow-hidden rounded-md bg-muted flex items-center justify-center">
+        {!preview.supported ? (
+          <p className="px-4 text-center text-sm text-muted-foreground">
+            Live preview is not supported in this browser
+          </p>
+        ) : !activeFile ? (
+          <div className="flex flex-col items-center px-4 text-center">
+            <ImageOff className="h-8 w-8 text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">
+              Add an image in the Upload tab to preview your settings
+            </p>
+          </div>
+        ) : preview.error && !preview.url ? (
+          <p className="px-4 text-center text-sm text-destructive">{preview.error}</p>
+        ) : preview.url ? (
+          <img
+            src={preview.url}
+            alt={`Preview of ${activeFile.name}`}
+            className={cn(
+              "max-h-full max-w-full object-contain transition-opacity",
+              preview.stale && "opacity-60"
+            )}
+          />
+        ) : null}
+
+        {activeFile && preview.rendering && (
+          <div className="absolute top-2 right-2 rounded-full bg-background/80 p-1.5 backdrop-blur-sm">
+            <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,15 +2,18 @@
 
 import React from "react";
 import Image from "next/image";
-import { Download, Loader2, AlertCircle, RefreshCw } from "lucide-react";
+import { Download, Loader2, AlertCircle, RefreshCw, Ban } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { SketchFile } from "@/types";
+import { PresignedImage } from "@/components/ui/presigned-image";
+import { resolvePresignedUrl } from "@/lib/presigned-urls";
 import { cn } from "@/lib/utils";
 
 interface SketchResultsProps {
   files: SketchFile[];
   onRetry?: (fileId: string) => void;
+  onCancel?: (fileId: string) => void;
   onDownload?: (file: SketchFile) => void;
   className?: string;
 }
@@ -18,6 +21,7 @@ interface SketchResultsProps {
 export function SketchResults({
   files,
   onRetry,
+  onCancel,
   onDownload,
   className,
 }: SketchResultsProps) {
@@ -34,13 +38,13 @@ export function SketchResults({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
-  const handleDownload = (file: SketchFile) => {
+  const handleDownload = async (file: SketchFile) => {
     if (onDownload) {
       onDownload(file);
     } else if (file.sketchUrl) {
       // Default download behavior
       const link = document.createElement("a");
-      link.href = file.sketchUrl;
+      link.href = await resolvePresignedUrl(file.sketchKey, file.sketchUrl);
       link.download = `sketch_${file.name}`;
       document.body.appendChild(link);
       link.click();
@@ -56,7 +60,8 @@ export function SketchResults({
           <Card key={file.id} className="overflow-hidden">
             <div className="aspect-square relative bg-muted">
               {file.status === "completed" && file.sketchUrl ? (
-                <img
+                <PresignedImage
+                  objectKey={file.sketchKey}
                   src={file.sketchUrl}
                   alt={`Sketch of ${file.name}`}
                   className="object-cover"
@@ -76,6 +81,11 @@ export function SketchResults({
                     </p>
                   )}
                 </div>
+              ) : file.status === "cancelled" ? (
+                <div className="absolute inset-0 flex flex-col items-center justify-center">
+                  <Ban className="h-10 w-10 text-muted-foreground" />
+                  <p className="mt-2 text-sm text-muted-foreground">Processing cancelled</p>
+                </div>
               ) : (
                 <div className="absolute inset-0 flex items-center justify-center">
                   <p className="text-sm text-muted-foreground">Pending</p>
@@ -104,7 +114,17 @@ export function SketchResults({
                         <Download className="h-4 w-4" />
                       </Button>
                     )}
-                    {file.status === "failed" && onRetry && (
+                    {(file.status === "pending" || file.status === "processing") && onCancel && (
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        onClick={() => onCancel(file.id)}
+                        title="Cancel processing"
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {(file.status === "failed" || file.status === "cancelled") && onRetry && (
                       <Button
                         size="icon"
                         variant="outline"
@@ -0,0 +1,341 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { AlertCircle, Grid3x3, Loader2 } from "lucide-react";
+import { SketchConfig, SketchFile, SketchMethod, NumberSketchParameter } from "@/types";
+import { useFileUpload } from "@/contexts/file-upload-context";
+import { useParameterSweep } from "@/hooks/useParameterSweep";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PresignedImage } from "@/components/ui/presigned-image";
+import { isLocalRenderingSupported } from "@/lib/sketch-worker";
+import {
+  MAX_SWEEP_STEPS,
+  MIN_SWEEP_STEPS,
+  SweepAxis,
+  SweepParameterKey,
+  getDefaultSweepAxis,
+  getSweepParameters,
+} from "@/lib/sketch-sweep";
+import { cn } from "@/lib/utils";
+
+// Select value for sweeping a single parameter
+const NO_ROWS = "none";
+
+interface SketchSweepDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  method: SketchMethod;
+  config?: SketchConfig;
+  // Processed images that can be swept on the backend
+  files: SketchFile[];
+  onApply: (config: SketchConfig) => void;
+}
+
+interface AxisRangeProps {
+  label: string;
+  axis: SweepAxis;
+  parameter: NumberSketchParameter;
+  onChange: (axis: SweepAxis) => void;
+}
+
+function AxisRange({ label, axis, parameter, onChange }: AxisRangeProps) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">{label} from</Label>
+        <Input
+          type="number"
+          min={parameter.min}
+          max={parameter.max}
+          step={parameter.step}
+          value={axis.min}
+          onChange={e => onChange({ ...axis, min: Number(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">to</Label>
+        <Input
+          type="number"
+          min={parameter.min}
+          max={parameter.max}
+          step={parameter.step}
+          value={axis.max}
+          onChange={e => onChange({ ...axis, max: Number(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Steps</Label>
+        <Input
+          type="number"
+          min={MIN_SWEEP_STEPS}
+          max={MAX_SWEEP_STEPS}
+          step={1}
+          value={axis.steps}
+          onChange={e => onChange({ ...axis, steps: Number(e.target.value) })}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Contact sheet of one image rendered with a range of values for one or two
+ * parameters; clicking a variant applies its config
+ */
+export function SketchSweepDialog({
+  open,
+  onOpenChange,
+  method,
+  config,
+  files,
+  onApply,
+}: SketchSweepDialogProps) {
+  const fileUploadContext = useFileUpload();
+  const parameters = useMemo(() => getSweepParameters(method), [method]);
+  const [columns, setColumns] = useState<SweepAxis | null>(null);
+  const [rows, setRows] = useState<SweepAxis | null>(null);
+  const [sourceId, setSourceId] = useState<string | null>(null);
+  const sweep = useParameterSweep();
+
+  // Queued images are only offered when they can be rendered in the browser
+  const localSources = useMemo(
+    () => isLocalRenderingSupported()
+      ? Array.from(fileUploadContext.files.entries()).filter(([_, file]) => file.type.startsWith("image/"))
+      : [],
+    [fileUploadContext.files]
+  );
+  const serverSources = files.filter(file => file.source !== "local" && file.status === "completed");
+  const activeSourceId = sourceId
+    ?? (localSources[0] && `local:${localSources[0][0]}`)
+    ?? (serverSources[0] && `server:${serverSources[0].id}`)
+    ?? null;
+
+  // Start from the first parameters the method reads, and again after a method change
+  useEffect(() => {
+    setColumns(parameters[0] ? getDefaultSweepAxis(parameters[0]) : null);
+    setRows(null);
+  }, [parameters]);
+
+  const getParameter = (key: SweepParameterKey) => parameters.find(parameter => parameter.key === key);
+  const columnParameter = columns && getParameter(columns.key);
+  const rowParameter = rows && getParameter(rows.key);
+
+  const handleRun = () => {
+    if (!columns || !activeSourceId) return;
+
+    const separator = activeSourceId.indexOf(":");
+    const type = activeSourceId.slice(0, separator);
+    const id = activeSourceId.slice(separator + 1);
+    const localFile = type === "local" ? fileUploadContext.getFileById(id) : undefined;
+    const serverFile = type === "server" ? serverSources.find(file => file.id === id) : undefined;
+    if (!localFile && !serverFile) {
+      toast.error("The selected image is no longer available");
+      return;
+    }
+
+    sweep.run(
+      localFile ? { type: "local", file: localFile } : { type: "server", key: (serverFile as SketchFile).originalKey },
+      method,
+      config,
+      columns,
+      rows
+    ).catch(error => {
+      console.error("Error running parameter sweep:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to run sweep");
+    });
+  };
+
+  const handleApply = (cellConfig: SketchConfig) => {
+    onApply(cellConfig);
+    onOpenChange(false);
+  };
+
+  const formatValue = (parameter: NumberSketchParameter | null | undefined, value: number) =>
+    parameter ? value.toFixed(parameter.precision) : String(value);
+
+  const grid = sweep.grid;
+  const gridColumnParameter = grid && getParameter(grid.columns.key);
+  const gridRowParameter = grid?.rows && getParameter(grid.rows.key);
+  const done = sweep.cells.filter(cell => cell.status === "completed" || cell.status === "failed").length;
+
+  return (
+    <Dialog open={open} onOpenChange={next => {
+      if (!next) sweep.cancel();
+      onOpenChange(next);
+    }}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Grid3x3 className="h-5 w-5" />
+            Parameter Sweep
+          </DialogTitle>
+          <DialogDescription>
+            Render one image with a range of values and pick the variant you like. Queued images are rendered in your
+            browser at a small size, processed images again on the server.
+          </DialogDescription>
+        </DialogHeader>
+
+        {parameters.length === 0 || !columns || !columnParameter ? (
+          <p className="text-sm text-muted-foreground">This method has no numeric parameters to sweep.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Image</Label>
+              <Select value={activeSourceId ?? ""} onValueChange={setSourceId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Add or process an image first" />
+                </SelectTrigger>
+                <SelectContent>
+                  {localSources.map(([id, file]) => (
+                    <SelectItem key={id} value={`local:${id}`}>{file.name}</SelectItem>
+                  ))}
+                  {serverSources.map(file => (
+                    <SelectItem key={file.id} value={`server:${file.id}`}>{file.name} (server)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              <Select
+                value={columns.key}
+                onValueChange={value => {
+                  const parameter = getParameter(value as SweepParameterKey);
+                  if (!parameter) return;
+                  setColumns(getDefaultSweepAxis(parameter));
+                  if (rows?.key === parameter.key) setRows(null);
+                }}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {parameters.map(parameter => (
+                    <SelectItem key={parameter.key} value={parameter.key}>{parameter.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <AxisRange label={columnParameter.label} axis={columns} parameter={columnParameter} onChange={setColumns} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rows</Label>
+              <Select
+                value={rows?.key ?? NO_ROWS}
+                onValueChange={value => {
+                  const parameter = value === NO_ROWS ? undefined : getParameter(value as SweepParameterKey);
+                  setRows(parameter ? getDefaultSweepAxis(parameter) : null);
+                }}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ROWS}>None</SelectItem>
+                  {parameters.filter(parameter => parameter.key !== columns.key).map(parameter => (
+                    <SelectItem key={parameter.key} value={parameter.key}>{parameter.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {rows && rowParameter && (
+                <AxisRange label={rowParameter.label} axis={rows} parameter={rowParameter} onChange={setRows} />
+              )}
+            </div>
+          </div>
+        )}
+
+        {grid && gridColumnParameter && (
+          <div className="overflow-x-auto">
+            <div
+              className="grid gap-2 min-w-max"
+              style={{ gridTemplateColumns: `${grid.rows ? "auto " : ""}repeat(${grid.columns.values.length}, minmax(8rem, 1fr))` }}
+            >
+              {grid.rows && <div />}
+              {grid.columns.values.map(value => (
+                <div key={value} className="text-center text-xs font-medium text-muted-foreground">
+                  {gridColumnParameter.label} {formatValue(gridColumnParameter, value)}
+                </div>
+              ))}
+
+              {(grid.rows ? grid.rows.values : [null]).map((rowValue, row) => (
+                <React.Fragment key={row}>
+                  {grid.rows && rowValue !== null && (
+                    <div className="flex items-center text-xs font-medium text-muted-foreground pr-2 [writing-mode:vertical-rl] rotate-180 justify-center">
+                      {gridRowParameter?.label} {formatValue(gridRowParameter, rowValue)}
+                    </div>
+                  )}
+                  {sweep.cells.filter(cell => cell.row === row).map(cell => (
+                    <button
+                      key={`${cell.row}-${cell.column}`}
+                      type="button"
+                      disabled={cell.status !== "completed"}
+                      onClick={() => handleApply(cell.config)}
+                      title={cell.status === "completed" ? "Use these settings" : cell.error}
+                      className={cn(
+                        "relative aspect-square overflow-hidden rounded-md border bg-muted",
+                        cell.status === "completed" && "cursor-pointer hover:ring-2 hover:ring-primary"
+                      )}
+                    >
+                      {cell.status === "completed" && cell.url ? (
+                        <PresignedImage
+                          objectKey={cell.sketchKey}
+                          src={cell.url}
+                          alt={`Variant ${cell.row + 1}-${cell.column + 1}`}
+                          className="h-full w-full object-contain"
+                        />
+                      ) : cell.status === "failed" ? (
+                        <div className="absolute inset-0 flex flex-col items-center justify-center p-2 text-center">
+                          <AlertCircle className="h-5 w-5 text-destructive" />
+                          <span className="mt-1 text-xs text-muted-foreground line-clamp-2">{cell.error}</span>
+                        </div>
+                      ) : (
+                        <div className="absolute inset-0 flex items-center justify-center">
+                          {cell.status === "rendering" && <Loader2 className="h-5 w-5 animate-spin text-primary" />}
+                        </div>
+                      )}
+                    </button>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="items-center">
+          {sweep.running && (
+            <span className="text-sm text-muted-foreground mr-auto">
+              Rendering {Math.min(done + 1, sweep.cells.length)} of {sweep.cells.length}
+            </span>
+          )}
+          {sweep.running ? (
+            <Button variant="outline" onClick={sweep.cancel}>Stop</Button>
+          ) : (
+            <Button onClick={handleRun} disabled={!columns || !activeSourceId}>
+              <Grid3x3 className="h-4 w-4 mr-2" />
+              {grid ? "Render Again" : "Render Sheet"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Copy, Download, Loader2 } from "lucide-react";
+import { SketchFile } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DEFAULT_TRACE_OPTIONS, TraceMode, TraceOptions, toSvgDocument } from "@/lib/trace";
+import { SketchTraceResult, isTracingSupported, traceSketch } from "@/lib/trace-worker";
+import { downloadBlob } from "@/lib/sketch-archive";
+import { fetchPresigned } from "@/lib/presigned-urls";
+
+// Traced again once the sliders have been still this long
+const TRACE_DELAY = 300;
+
+// Drawn over the black sketch so the traced outlines stand out
+const OVERLAY_COLOR = "#ef4444";
+
+interface SketchTracePanelProps {
+  file: SketchFile;
+  // Object URL of the overlay SVG, or null while there is nothing to overlay
+  onOverlayChange: (url: string | null) => void;
+}
+
+export function SketchTracePanel({ file, onOverlayChange }: SketchTracePanelProps) {
+  const [options, setOptions] = useState<TraceOptions>(DEFAULT_TRACE_OPTIONS);
+  const [mode, setMode] = useState<TraceMode>("fill");
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [result, setResult] = useState<SketchTraceResult | null>(null);
+  const [tracing, setTracing] = useState(false);
+  const sourceRef = useRef<Promise<Blob> | null>(null);
+
+  // The sketch is downloaded once and traced again for every change of settings
+  useEffect(() => {
+    if (!file.sketchUrl || !isTracingSupported()) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setTracing(true);
+      try {
+        sourceRef.current ??= fetchPresigned(file.sketchKey, file.sketchUrl as string).then(response => {
+          if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+          return response.blob();
+        });
+        const source = await sourceRef.current;
+        const traced = await traceSketch(source, options, { signal: controller.signal });
+        setResult(traced);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        sourceRef.current = null;
+        console.error("Error tracing sketch:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to trace sketch");
+      } finally {
+        if (!controller.signal.aborted) setTracing(false);
+      }
+    }, TRACE_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [file.sketchKey, file.sketchUrl, options]);
+
+  useEffect(() => {
+    if (!result || !showOverlay) {
+      onOverlayChange(null);
+      return;
+    }
+
+    const svg = toSvgDocument(result, { mode, color: OVERLAY_COLOR });
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    onOverlayChange(url);
+    return () => URL.revokeObjectURL(url);
+  }, [result, mode, showOverlay, onOverlayChange]);
+
+  // Clear the overlay when the panel closes
+  useEffect(() => () => onOverlayChange(null), [onOverlayChange]);
+
+  const updateOption = <K extends keyof TraceOptions>(key: K, value: TraceOptions[K]) => {
+    setOptions(current => ({ ...current, [key]: value }));
+  };
+
+  const getSvg = () => (result ? toSvgDocument(result, { mode }) : null);
+
+  const handleDownload = () => {
+    const svg = getSvg();
+    if (!svg) return;
+    const baseName = file.name.replace(/\.[^./]+$/, "");
+    downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${baseName}_${file.method}.svg`);
+    toast.success("Download started");
+  };
+
+  const handleCopy = async () => {
+    const svg = getSvg();
+    if (!svg) return;
+    try {
+      await navigator.clipboard.writeText(svg);
+      toast.success("SVG copied to clipboard");
+    } catch (error) {
+      console.error("Error copying SVG:", error);
+      toast.error("Failed to copy SVG");
+    }
+  };
+
+  if (!isTracingSupported()) {
+    return (
+      <div className="w-72 rounded-lg border bg-background/90 p-4 text-sm text-muted-foreground backdrop-blur-sm">
+        Vector tracing is not supported in this browser.
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-72 space-y-4 rounded-lg border bg-background/90 p-4 shadow-lg backdrop-blur-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Vector Trace</h3>
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          {tracing && <Loader2 className="h-3 w-3 animate-spin" />}
+          {result ? `${result.pathCount} paths` : "Tracing..."}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Threshold</Label>
+          <span className="text-sm text-muted-foreground">{options.threshold}</span>
+        </div>
+        <Slider
+          min={1}
+          max={255}
+          step={1}
+          value={[options.threshold]}
+          onValueChange={([value]) => updateOption("threshold", value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Smoothing</Label>
+          <span className="text-sm text-muted-foreground">{Math.round(options.smoothing * 100)}%</span>
+        </div>
+        <Slider
+          min={0}
+          max={100}
+          step={5}
+          value={[Math.round(options.smoothing * 100)]}
+          onValueChange={([value]) => updateOption("smoothing", value / 100)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Minimum speckle</Label>
+          <span className="text-sm text-muted-foreground">{options.minSpeckle} px</span>
+        </div>
+        <Slider
+          min={0}
+          max={200}
+          step={1}
+          value={[options.minSpeckle]}
+          onValueChange={([value]) => updateOption("minSpeckle", value)}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <Select value={mode} onValueChange={value => setMode(value as TraceMode)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="fill">Fill</SelectItem>
+            <SelectItem value="stroke">Stroke</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch id="trace-overlay" checked={showOverlay} onCheckedChange={setShowOverlay} />
+          <Label htmlFor="trace-overlay">Overlay</Label>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button size="sm" className="flex-1 gap-2" onClick={handleDownload} disabled={!result}>
+          <Download className="h-4 w-4" />
+          SVG
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1 gap-2" onClick={handleCopy} disabled={!result}>
+          <Copy className="h-4 w-4" />
+          Copy
+        </Button>
+      </div>
+    </div>
+  );
+}
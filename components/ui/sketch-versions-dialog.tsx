@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, History, RotateCcw, Trash2 } from "lucide-react";
+import { SKETCH_METHOD_OPTIONS, SketchFile, SketchMethod } from "@/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PresignedImage } from "@/components/ui/presigned-image";
+import { diffVersions, getShownVersion, listVersions } from "@/lib/sketch-versions";
+import { cn } from "@/lib/utils";
+
+interface SketchVersionsDialogProps {
+  // The dialog is open while there is a file; pass the live card so changes show up
+  file: SketchFile | null;
+  onClose: () => void;
+  onRestore: (versionId: string) => void;
+  onDelete: (versionId: string) => void;
+}
+
+const getMethodLabel = (method: SketchMethod) =>
+  SKETCH_METHOD_OPTIONS.find(option => option.value === method)?.label ?? method;
+
+const formatTime = (createdAt: string) =>
+  createdAt ? new Date(createdAt).toLocaleString() : "Unknown time";
+
+/**
+ * Every output of one original, oldest first, with the settings that changed
+ * against the version on the card
+ */
+export function SketchVersionsDialog({
+  file,
+  onClose,
+  onRestore,
+  onDelete,
+}: SketchVersionsDialogProps) {
+  const versions = file ? listVersions(file) : [];
+  const shown = file ? getShownVersion(file) : null;
+  const [viewedId, setViewedId] = useState<string | null>(null);
+
+  // Open on the version the card shows
+  useEffect(() => {
+    setViewedId(null);
+  }, [file?.id]);
+
+  const viewedIndex = Math.max(0, versions.findIndex(version => version.id === (viewedId ?? shown?.id)));
+  const viewed = versions[viewedIndex];
+  const differences = viewed && shown && viewed.id !== shown.id ? diffVersions(shown, viewed) : [];
+
+  const step = (offset: number) => {
+    const next = versions[viewedIndex + offset];
+    if (next) setViewedId(next.id);
+  };
+
+  const handleDelete = () => {
+    if (!viewed) return;
+    // Stay next to the deleted version rather than jumping back to the card's
+    setViewedId(versions[viewedIndex + 1]?.id ?? versions[viewedIndex - 1]?.id ?? null);
+    onDelete(viewed.id);
+    if (versions.length === 1) onClose();
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Versions
+          </DialogTitle>
+          <DialogDescription>
+            Every sketch made from {file?.name}. Restore one to show it on the card.
+          </DialogDescription>
+        </DialogHeader>
+
+        {viewed ? (
+          <div className="space-y-4">
+            <div className="relative flex h-[45vh] items-center justify-center rounded-md bg-muted">
+              {viewed.sketchUrl && (
+                <PresignedImage
+                  objectKey={viewed.sketchKey}
+                  src={viewed.sketchUrl}
+                  alt={`Version ${viewedIndex + 1} of ${file?.name}`}
+                  className="max-h-full max-w-full object-contain"
+                />
+              )}
+              <Button
+                size="icon"
+                variant="secondary"
+                className="absolute left-2"
+                onClick={() => step(-1)}
+                disabled={viewedIndex === 0}
+                title="Older version"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="secondary"
+                className="absolute right-2"
+                onClick={() => step(1)}
+                disabled={viewedIndex === versions.length - 1}
+                title="Newer version"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {versions.map((version, index) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setViewedId(version.id)}
+                  className={cn(
+                    "flex-none rounded-md border px-3 py-2 text-left text-xs hover:bg-muted",
+                    version.id === viewed.id && "ring-2 ring-primary"
+                  )}
+                >
+                  <div className="flex items-center gap-1.5 font-medium">
+                    v{index + 1} · {getMethodLabel(version.method)}
+                    {version.id === shown?.id && <Badge variant="outline">Shown</Badge>}
+                  </div>
+                  <div className="text-muted-foreground">{formatTime(version.createdAt)}</div>
+                </button>
+              ))}
+            </div>
+
+            {viewed.id !== shown?.id && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Changes from the shown version</h4>
+                {differences.length > 0 ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="py-1 font-normal">Setting</th>
+                        <th className="py-1 font-normal">Shown</th>
+                        <th className="py-1 font-normal">This version</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {differences.map(difference => (
+                        <tr key={difference.key} className="border-t">
+                          <td className="py-1">{difference.label}</td>
+                          <td className="py-1">{difference.before}</td>
+                          <td className="py-1 font-medium">{difference.after}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Same method and settings.</p>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This image has no finished versions yet.</p>
+        )}
+
+        <DialogFooter className="items-center">
+          <Button variant="outline" onClick={handleDelete} disabled={!viewed}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete Version
+          </Button>
+          <Button onClick={() => viewed && onRestore(viewed.id)} disabled={!viewed || viewed.id === shown?.id}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restore
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
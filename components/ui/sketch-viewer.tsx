@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { SketchFile } from "@/types";
+import { useZoomPan } from "@/hooks/useZoomPan";
+import { usePresignedUrl } from "@/hooks/usePresignedUrl";
+import { ZoomPanControls, ZoomPanLayer, ZoomPanMinimap, ZoomPanViewport } from "@/components/ui/zoom-pan";
+import { COMPARE_MODES, CompareMode, SketchCompare } from "@/components/ui/sketch-compare";
+import { cn } from "@/lib/utils";
+
+// Zoom keys step by this factor
+const KEY_ZOOM_STEP = 1.5;
+
+interface SketchViewerProps {
+  file: SketchFile;
+  // The comparison is shown once the original has been resolved
+  compare: boolean;
+  originalUrl: string | null;
+  compareMode: CompareMode;
+  onCompareModeChange: (mode: CompareMode) => void;
+  comparePosition: number;
+  onComparePositionChange: (position: number) => void;
+  // Drawn over the sketch and zoomed with it, like the vector trace
+  overlayUrl?: string | null;
+  className?: string;
+}
+
+/**
+ * Fullscreen sketch view with zoom up to 800%, panning and a minimap
+ *
+ * Keys: + and - zoom, 1 shows actual pixels, 0 fits; while comparing the
+ * arrows move the divider or opacity and D, S and O switch modes.
+ */
+export function SketchViewer({
+  file,
+  compare,
+  originalUrl,
+  compareMode,
+  onCompareModeChange,
+  comparePosition,
+  onComparePositionChange,
+  overlayUrl,
+  className,
+}: SketchViewerProps) {
+  const zoomPan = useZoomPan();
+  const sketch = usePresignedUrl(file.sketchKey, file.sketchUrl);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const comparing = compare && originalUrl !== null;
+
+  // Focus the viewer so the keyboard works straight away
+  useEffect(() => {
+    rootRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+    const step = e.shiftKey ? 10 : 1;
+    const modeShortcut = COMPARE_MODES.find(option => option.shortcut === e.key.toLowerCase());
+
+    if (e.key === "+" || e.key === "=") {
+      zoomPan.zoomBy(KEY_ZOOM_STEP);
+    } else if (e.key === "-" || e.key === "_") {
+      zoomPan.zoomBy(1 / KEY_ZOOM_STEP);
+    } else if (e.key === "0") {
+      zoomPan.fit();
+    } else if (e.key === "1") {
+      zoomPan.actualSize();
+    } else if (comparing && modeShortcut) {
+      onCompareModeChange(modeShortcut.value);
+    } else if (comparing && compareMode !== "side-by-side" && (e.key === "ArrowLeft" || e.key === "ArrowDown")) {
+      onComparePositionChange(Math.max(0, comparePosition - step));
+    } else if (comparing && compareMode !== "side-by-side" && (e.key === "ArrowRight" || e.key === "ArrowUp")) {
+      onComparePositionChange(Math.min(100, comparePosition + step));
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  if (!sketch.url) return null;
+
+  return (
+    <div
+      ref={rootRef}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      className={cn("relative flex flex-col gap-3 outline-none", className)}
+    >
+      {comparing ? (
+        <SketchCompare
+          zoomPan={zoomPan}
+          originalUrl={originalUrl}
+          sketchUrl={sketch.url}
+          originalKey={file.originalKey}
+          sketchKey={file.sketchKey}
+          name={file.name}
+          mode={compareMode}
+          onModeChange={onCompareModeChange}
+          position={comparePosition}
+          onPositionChange={onComparePositionChange}
+          className="flex-1 min-h-0"
+        />
+      ) : (
+        <ZoomPanViewport zoomPan={zoomPan} className="flex-1 min-h-0 w-full rounded-md">
+          <ZoomPanLayer zoomPan={zoomPan}>
+            <img
+              src={sketch.url}
+              alt={`Sketch of ${file.name}`}
+              draggable={false}
+              onError={sketch.handleError}
+              onLoad={e => {
+                sketch.handleLoad();
+                zoomPan.setContentSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                });
+              }}
+            />
+          </ZoomPanLayer>
+          {overlayUrl && (
+            <ZoomPanLayer zoomPan={zoomPan} className="opacity-80">
+              <img src={overlayUrl} alt={`Overlay on ${file.name}`} draggable={false} />
+            </ZoomPanLayer>
+          )}
+        </ZoomPanViewport>
+      )}
+
+      <ZoomPanMinimap zoomPan={zoomPan} src={sketch.url} className="absolute bottom-14 left-4 z-20" />
+      <ZoomPanControls zoomPan={zoomPan} className="self-center" />
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useRef } from "react";
+import { Scan, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { MAX_ZOOM, ZoomPan } from "@/hooks/useZoomPan";
+
+// Zoom buttons step by this factor
+const ZOOM_STEP = 1.5;
+
+interface ZoomPanViewportProps extends React.HTMLAttributes<HTMLDivElement> {
+  zoomPan: ZoomPan;
+}
+
+/**
+ * Area that zooms on the wheel or a pinch and pans when dragged
+ */
+export function ZoomPanViewport({ zoomPan, className, children, ...props }: ZoomPanViewportProps) {
+  return (
+    <div
+      ref={zoomPan.viewportRef}
+      data-slot="zoom-pan-viewport"
+      {...zoomPan.viewportHandlers}
+      {...props}
+      className={cn("relative overflow-hidden touch-none select-none cursor-grab active:cursor-grabbing", className)}
+      style={{
+        // Past 1:1 individual pixels should stay sharp
+        imageRendering: zoomPan.view && zoomPan.view.zoom > 1 ? "pixelated" : "auto",
+        ...props.style,
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+interface ZoomPanLayerProps {
+  zoomPan: ZoomPan;
+  children: React.ReactNode;
+  // Applied to the untransformed layer, e.g. a clip in viewport coordinates
+  style?: React.CSSProperties;
+  className?: string;
+}
+
+/**
+ * Content drawn at its natural size and moved by the shared view
+ */
+export function ZoomPanLayer({ zoomPan, children, style, className }: ZoomPanLayerProps) {
+  const { view, content, viewport } = zoomPan;
+  const ready = view && content && viewport;
+
+  return (
+    <div className={cn("absolute inset-0 pointer-events-none", className)} style={style}>
+      <div
+        className="absolute top-0 left-0 origin-top-left [&>img]:h-full [&>img]:w-full"
+        style={ready ? {
+          width: content.width,
+          height: content.height,
+          transform: `translate(${viewport.width / 2 - view.x * view.zoom}px, ${viewport.height / 2 - view.y * view.zoom}px) scale(${view.zoom})`,
+        } : { visibility: "hidden" }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
+
+interface ZoomPanMinimapProps {
+  zoomPan: ZoomPan;
+  src: string;
+  className?: string;
+}
+
+const MINIMAP_WIDTH = 160;
+
+/**
+ * Thumbnail with the visible part outlined; click or drag it to move there
+ */
+export function ZoomPanMinimap({ zoomPan, src, className }: ZoomPanMinimapProps) {
+  const { view, content, viewport, fitZoom, centerOn } = zoomPan;
+  const dragging = useRef(false);
+
+  // Only worth showing once part of the image is out of view
+  if (!view || !content || !viewport || view.zoom <= fitZoom * 1.01) return null;
+
+  const scale = MINIMAP_WIDTH / content.width;
+  const visibleWidth = Math.min(content.width, viewport.width / view.zoom);
+  const visibleHeight = Math.min(content.height, viewport.height / view.zoom);
+
+  const moveTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    centerOn((e.clientX - rect.left) / scale, (e.clientY - rect.top) / scale);
+  };
+
+  return (
+    <div
+      className={cn("relative overflow-hidden rounded border-2 border-white/80 shadow-lg cursor-pointer touch-none", className)}
+      style={{ width: MINIMAP_WIDTH, height: content.height * scale }}
+      onPointerDown={e => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragging.current = true;
+        moveTo(e);
+      }}
+      onPointerMove={e => dragging.current && moveTo(e)}
+      onPointerUp={() => {
+        dragging.current = false;
+      }}
+    >
+      <img src={src} alt="" draggable={false} className="h-full w-full object-fill" />
+      <div
+        className="absolute border-2 border-primary bg-primary/10 pointer-events-none"
+        style={{
+          left: (view.x - visibleWidth / 2) * scale,
+          top: (view.y - visibleHeight / 2) * scale,
+          width: visibleWidth * scale,
+          height: visibleHeight * scale,
+        }}
+      />
+    </div>
+  );
+}
+
+interface ZoomPanControlsProps {
+  zoomPan: ZoomPan;
+  className?: string;
+}
+
+/**
+ * Zoom out and in, actual size and fit buttons around the current zoom
+ */
+export function ZoomPanControls({ zoomPan, className }: ZoomPanControlsProps) {
+  const { view, fitZoom } = zoomPan;
+  const zoom = view?.zoom ?? 1;
+
+  return (
+    <div className={cn("flex items-center gap-1 rounded-full bg-background/80 p-1 backdrop-blur-sm", className)}>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 rounded-full"
+        onClick={() => zoomPan.zoomBy(1 / ZOOM_STEP)}
+        disabled={!view || zoom <= Math.min(1, fitZoom)}
+        title="Zoom out (-)"
+      >
+        <ZoomOut className="h-4 w-4" />
+      </Button>
+      <span className="w-12 text-center text-xs tabular-nums">{Math.round(zoom * 100)}%</span>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 rounded-full"
+        onClick={() => zoomPan.zoomBy(ZOOM_STEP)}
+        disabled={!view || zoom >= MAX_ZOOM}
+        title="Zoom in (+)"
+      >
+        <ZoomIn className="h-4 w-4" />
+      </Button>
+      <Button
+        size="sm"
+        variant={Math.abs(zoom - 1) < 0.001 ? "default" : "ghost"}
+        className="h-8 rounded-full px-3 text-xs"
+        onClick={zoomPan.actualSize}
+        disabled={!view}
+        title="Actual size (1)"
+      >
+        1:1
+      </Button>
+      <Button
+        size="icon"
+        variant={Math.abs(zoom - fitZoom) < 0.001 ? "default" : "ghost"}
+        className="h-8 w-8 rounded-full"
+        onClick={zoomPan.fit}
+        disabled={!view}
+        title="Fit to screen (0)"
+      >
+        <Scan className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
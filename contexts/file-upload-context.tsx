@@ -1,6 +1,7 @@
 "use client";
 
-import React, { createContext, useContext, useState, useReducer, useCallback } from 'react';
+import React, { createContext, useContext, useState, useReducer, useCallback, useRef } from 'react';
+import { hashFile } from '@/lib/file-hash';
 
 // Types
 export interface FileUploadState {
@@ -13,11 +14,19 @@ export interface FileUploadState {
     etag?: string;
     url?: string;
   }>;
+  // SHA-256 of each file's contents, missing when hashing failed
+  hashes: Map<string, string>;
   isUploading: boolean;
 }
 
+// Files left out of an addFiles call because their contents are already listed
+export interface AddFilesResult {
+  added: File[];
+  duplicates: File[];
+}
+
 type FileUploadAction = 
-  | { type: 'ADD_FILES'; files: File[] }
+  | { type: 'ADD_FILES'; files: File[]; hashes?: Array<string | undefined> }
   | { type: 'REMOVE_FILE'; fileId: string }
   | { type: 'CLEAR_FILES' }
   | { type: 'SET_PROGRESS'; fileId: string; progress: number }
@@ -26,7 +35,7 @@ type FileUploadAction =
   | { type: 'SET_FILE_URL'; fileId: string; url: string };
 
 interface FileUploadContextType extends FileUploadState {
-  addFiles: (files: File[]) => void;
+  addFiles: (files: File[]) => Promise<AddFilesResult>;
   removeFile: (fileId: string) => void;
   clearFiles: () => void;
   setProgress: (fileId: string, progress: number) => void;
@@ -35,6 +44,7 @@ interface FileUploadContextType extends FileUploadState {
   setFileUrl: (fileId: string, url: string) => void;
   getFileById: (fileId: string) => File | undefined;
   getUploadById: (fileId: string) => { key: string; status: string; error?: string; etag?: string; url?: string } | undefined;
+  getHashById: (fileId: string) => string | undefined;
 }
 
 // Initial state
@@ -42,9 +52,28 @@ const initialState: FileUploadState = {
   files: new Map(),
   progress: new Map(),
   uploads: new Map(),
+  hashes: new Map(),
   isUploading: false,
 };
 
+/**
+ * Find a listed file with the same contents
+ *
+ * Files are compared by hash; name and size are only a fallback when either hash is missing.
+ */
+const findDuplicateId = (
+  files: Map<string, File>,
+  hashes: Map<string, string>,
+  file: File,
+  hash?: string
+) => Array.from(files.entries()).find(([fileId, existingFile]) => {
+  const existingHash = hashes.get(fileId);
+  if (hash && existingHash) {
+    return hash === existingHash;
+  }
+  return existingFile.name === file.name && existingFile.size === file.size;
+})?.[0];
+
 // Reducer
 function fileUploadReducer(state: FileUploadState, action: FileUploadAction): FileUploadState {
   switch (action.type) {
@@ -52,25 +81,24 @@ function fileUploadReducer(state: FileUploadState, action: FileUploadAction): Fi
       const newFiles = new Map(state.files);
       const newProgress = new Map(state.progress);
       const newUploads = new Map(state.uploads);
+      const newHashes = new Map(state.hashes);
       
-      action.files.forEach(file => {
-        // Check if this file already exists in the map (by name and size)
-        const existingFileId = Array.from(newFiles.entries()).find(
-          ([_, existingFile]) => 
-            existingFile.name === file.name && 
-            existingFile.size === file.size
-        )?.[0];
+      action.files.forEach((file, index) => {
+        const hash = action.hashes?.[index];
         
-        // If file already exists, don't add it again
-        if (existingFileId) {
+        // If the same contents are already listed, don't add them again
+        if (findDuplicateId(newFiles, newHashes, file, hash)) {
           return;
         }
         
-        // Add new file with unique ID
-        const fileId = `${file.name}-${file.size}-${Date.now()}`;
+        // Add new file with unique ID; the hash tells apart different files with the same name and size
+        const fileId = `${file.name}-${file.size}-${Date.now()}${hash ? `-${hash.slice(0, 12)}` : ''}`;
         newFiles.set(fileId, file);
         newProgress.set(fileId, 0);
         newUploads.set(fileId, { key: '', status: 'pending' });
+        if (hash) {
+          newHashes.set(fileId, hash);
+        }
       });
       
       return {
@@ -78,6 +106,7 @@ function fileUploadReducer(state: FileUploadState, action: FileUploadAction): Fi
         files: newFiles,
         progress: newProgress,
         uploads: newUploads,
+        hashes: newHashes,
       };
     }
     
@@ -85,16 +114,19 @@ function fileUploadReducer(state: FileUploadState, action: FileUploadAction): Fi
       const newFiles = new Map(state.files);
       const newProgress = new Map(state.progress);
       const newUploads = new Map(state.uploads);
+      const newHashes = new Map(state.hashes);
       
       newFiles.delete(action.fileId);
       newProgress.delete(action.fileId);
       newUploads.delete(action.fileId);
+      newHashes.delete(action.fileId);
       
       return {
         ...state,
         files: newFiles,
         progress: newProgress,
         uploads: newUploads,
+        hashes: newHashes,
       };
     }
     
@@ -104,6 +136,7 @@ function fileUploadReducer(state: FileUploadState, action: FileUploadAction): Fi
         files: new Map(),
         progress: new Map(),
         uploads: new Map(),
+        hashes: new Map(),
         isUploading: false,
       };
     
@@ -169,9 +202,39 @@ const FileUploadContext = createContext<FileUploadContextType | undefined>(undef
 // Provider component
 export function FileUploadProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(fileUploadReducer, initialState);
+  // Latest state for async callbacks that outlive the render they were created in
+  const stateRef = useRef(state);
+  stateRef.current = state;
   
-  const addFiles = useCallback((files: File[]) => {
-    dispatch({ type: 'ADD_FILES', files });
+  const addFiles = useCallback(async (files: File[]): Promise<AddFilesResult> => {
+    // Hash before adding so copies are caught whatever they are called
+    const results = await Promise.allSettled(files.map(file => hashFile(file)));
+    const hashes = results.map((result, index) => {
+      if (result.status === 'fulfilled') return result.value;
+      console.error(`Error hashing ${files[index].name}:`, result.reason);
+      return undefined;
+    });
+    
+    // Mirror the reducer's check, including copies within this batch
+    const { files: currentFiles, hashes: currentHashes } = stateRef.current;
+    const seenFiles = new Map(currentFiles);
+    const seenHashes = new Map(currentHashes);
+    const added: File[] = [];
+    const duplicates: File[] = [];
+    
+    files.forEach((file, index) => {
+      if (findDuplicateId(seenFiles, seenHashes, file, hashes[index])) {
+        duplicates.push(file);
+        return;
+      }
+      const placeholderId = `pending-${index}`;
+      seenFiles.set(placeholderId, file);
+      if (hashes[index]) seenHashes.set(placeholderId, hashes[index] as string);
+      added.push(file);
+    });
+    
+    dispatch({ type: 'ADD_FILES', files, hashes });
+    return { added, duplicates };
   }, []);
   
   const removeFile = useCallback((fileId: string) => {
@@ -206,6 +269,10 @@ export function FileUploadProvider({ children }: { children: React.ReactNode })
     return state.uploads.get(fileId);
   }, [state.uploads]);
   
+  const getHashById = useCallback((fileId: string) => {
+    return state.hashes.get(fileId);
+  }, [state.hashes]);
+  
   const value = {
     ...state,
     addFiles,
@@ -217,6 +284,7 @@ export function FileUploadProvider({ children }: { children: React.ReactNode })
     setFileUrl,
     getFileById,
     getUploadById,
+    getHashById,
   };
   
   return (
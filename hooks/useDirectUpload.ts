@@ -1,6 +1,9 @@
 import { useState, useCallback } from 'react';
 import { useFileUpload } from '@/contexts/file-upload-context';
 import { fileApi } from '@/services/file.api';
+import { MULTIPART_THRESHOLD, discardMultipartUpload, uploadMultipart } from '@/lib/multipart-upload';
+import { listStoredUploads, StoredMultipartUpload } from '@/lib/upload-store';
+import { hashFile } from '@/lib/file-hash';
 
 interface UploadOptions {
   prefix?: string;
@@ -10,6 +13,14 @@ interface UploadOptions {
   onProgress?: (progress: number, fileName: string) => void;
   maxConcurrentUploads?: number;
   abortSignal?: AbortSignal;
+  // Files at least this large are uploaded in resumable parts
+  multipartThreshold?: number;
+  partSize?: number;
+  maxConcurrentParts?: number;
+  // Name of the file as the user picked it, when it was converted or renamed before upload
+  getOriginalName?: (file: File) => string | undefined;
+  // Path inside a dropped folder or archive, stored with the object
+  getRelativePath?: (file: File) => string | undefined;
 }
 
 interface UploadResult {
@@ -18,8 +29,106 @@ interface UploadResult {
   etag: string;
   success: boolean;
   error?: string;
+  // Set when a multipart upload continued from parts sent before a reload
+  resumed?: boolean;
+  // Original file name, which may differ from the uploaded file after conversion
+  name?: string;
+  // SHA-256 of the uploaded contents
+  hash?: string;
+  // Path inside the folder or archive the file came from
+  path?: string;
+  // Id of the file in the upload list
+  fileId?: string;
 }
 
+/**
+ * Upload a file in a single PUT to a presigned URL
+ */
+const uploadWithPresignedUrl = async (
+  file: File,
+  options: UploadOptions,
+  signal: AbortSignal,
+  onProgress: (percent: number) => void
+): Promise<{ key: string; etag: string }> => {
+  // Step 1: Get presigned URL from backend
+  const response = await fileApi.getPresignedUploadUrl({
+    file_name: file.name,
+    prefix: options.prefix,
+    is_public: options.isPublic,
+    metadata: options.metadata,
+    file_type: file.type || 'application/octet-stream',
+  });
+
+  if (!response.data?.presigned_url || !response.data?.key) {
+    throw new Error('Failed to get presigned URL');
+  }
+
+  const { presigned_url, key } = response.data;
+
+  // Step 2: Upload file directly to S3 using the presigned URL
+  const xhr = new XMLHttpRequest();
+  
+  // Set up progress tracking
+  xhr.upload.addEventListener('progress', (event) => {
+    if (event.lengthComputable) {
+      onProgress(Math.round((event.loaded / event.total) * 100));
+    }
+  });
+
+  // Set up abort handling
+  signal.addEventListener('abort', () => {
+    xhr.abort();
+  });
+
+  // Create a promise to track the XHR completion
+  const uploadPromise = new Promise<{ success: boolean; etag?: string }>((resolve, reject) => {
+    xhr.addEventListener('load', () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        // S3 returns the ETag in the response header
+        const etag = xhr.getResponseHeader('ETag')?.replace(/"/g, '') || '';
+        resolve({ success: true, etag });
+      } else {
+        console.error('Upload failed with status:', xhr.status);
+        console.error('Response text:', xhr.responseText);
+        reject(new Error(`Upload failed with status ${xhr.status}: ${xhr.responseText}`));
+      }
+    });
+    
+    xhr.addEventListener('error', () => {
+      console.error('Network error during upload');
+      reject(new Error('Network error occurred during upload'));
+    });
+    
+    xhr.addEventListener('abort', () => {
+      reject(new Error('Upload was aborted'));
+    });
+  });
+
+  // Log the presigned URL for debugging (domain only, without query params)
+  console.log('Uploading to:', presigned_url.split('?')[0]);
+  
+  // CRITICAL FIX: Use the exact presigned URL without any modifications
+  xhr.open('PUT', presigned_url);
+  
+  // CRITICAL FIX: Only set Content-Type header - S3 is extremely strict about the signed headers
+  xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+  
+  // IMPORTANT: Do NOT add any other headers that weren't included in the signature
+  // Adding unauthorized headers is one of the most common causes of 403 errors with presigned URLs
+  
+  // Send the file without any modifications
+  xhr.send(file);
+
+  // Wait for upload to complete
+  const { success, etag } = await uploadPromise;
+
+  if (!success) {
+    throw new Error('Upload failed');
+  }
+
+  return { key, etag: etag || '' };
+};
+
 export const useDirectUpload = () => {
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState<Record<string, number>>({});
@@ -67,91 +176,56 @@ export const useDirectUpload = () => {
       // Update status in context
       fileUploadContext.setUploadStatus(fileId, 'uploading');
       
-      // Step 1: Get presigned URL from backend
-      const response = await fileApi.getPresignedUploadUrl({
-        file_name: file.name,
-        prefix: options.prefix,
-        is_public: options.isPublic,
-        metadata: options.metadata,
-        file_type: file.type || 'application/octet-stream',
+      // Keep the original name with the object so converted files can still be recognised
+      const originalName = options.getOriginalName?.(file);
+      const relativePath = options.getRelativePath?.(file);
+      // The content hash lets the backend and the sketch cache recognise identical images
+      const contentHash = await hashFile(file).catch(error => {
+        console.error('Error hashing file:', error);
+        return undefined;
       });
-
-      if (!response.data?.presigned_url || !response.data?.key) {
-        throw new Error('Failed to get presigned URL');
-      }
-
-      const { presigned_url, key, file_url } = response.data;
-
-      // Step 2: Upload file directly to S3 using the presigned URL
-      const xhr = new XMLHttpRequest();
+      const metadata: Record<string, string> = {
+        ...options.metadata,
+        ...(originalName && originalName !== file.name && { original_filename: encodeURIComponent(originalName) }),
+        ...(contentHash && { sha256: contentHash }),
+        // Object metadata has to be ASCII, like the original name
+        ...(relativePath && { path: encodeURIComponent(relativePath) }),
+      };
       
-      // Set up progress tracking
-      xhr.upload.addEventListener('progress', (event) => {
-        if (event.lengthComputable) {
-          const percentComplete = Math.round((event.loaded / event.total) * 100);
-          setProgress((prev) => ({ ...prev, [fileId]: percentComplete }));
-          
-          // Update progress in context
-          fileUploadContext.setProgress(fileId, percentComplete);
-          
-          // Call the onProgress callback if provided
-          options.onProgress?.(percentComplete, file.name);
-        }
-      });
-
-      // Set up abort handling
-      options.abortSignal?.addEventListener('abort', () => {
-        xhr.abort();
-      });
-
-      controller.signal.addEventListener('abort', () => {
-        xhr.abort();
-      });
-
-      // Create a promise to track the XHR completion
-      const uploadPromise = new Promise<{ success: boolean; etag?: string }>((resolve, reject) => {
-        xhr.addEventListener('load', () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            // S3 returns the ETag in the response header
-            const etag = xhr.getResponseHeader('ETag')?.replace(/"/g, '') || '';
-            resolve({ success: true, etag });
-          } else {
-            console.error('Upload failed with status:', xhr.status);
-            console.error('Response text:', xhr.responseText);
-            reject(new Error(`Upload failed with status ${xhr.status}: ${xhr.responseText}`));
-          }
-        });
+      const reportProgress = (percentComplete: number) => {
+        setProgress((prev) => ({ ...prev, [fileId]: percentComplete }));
         
-        xhr.addEventListener('error', () => {
-          console.error('Network error during upload');
-          reject(new Error('Network error occurred during upload'));
-        });
+        // Update progress in context
+        fileUploadContext.setProgress(fileId, percentComplete);
         
-        xhr.addEventListener('abort', () => {
-          reject(new Error('Upload was aborted'));
-        });
-      });
-
-      // Log the presigned URL for debugging (domain only, without query params)
-      console.log('Uploading to:', presigned_url.split('?')[0]);
-      
-      // CRITICAL FIX: Use the exact presigned URL without any modifications
-      xhr.open('PUT', presigned_url);
+        // Call the onProgress callback if provided
+        options.onProgress?.(percentComplete, file.name);
+      };
       
-      // CRITICAL FIX: Only set Content-Type header - S3 is extremely strict about the signed headers
-      xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+      // Forward aborts from the caller as well
+      options.abortSignal?.addEventListener('abort', () => {
+        controller.abort();
+      });
       
-      // IMPORTANT: Do NOT add any other headers that weren't included in the signature
-      // Adding unauthorized headers is one of the most common causes of 403 errors with presigned URLs
+      // Large files go up in parts that survive dropped connections and reloads
+      const multipart = file.size >= (options.multipartThreshold ?? MULTIPART_THRESHOLD);
+      let resumed = false;
+      let key: string;
+      let etag: string;
       
-      // Send the file without any modifications
-      xhr.send(file);
-
-      // Wait for upload to complete
-      const { success, etag } = await uploadPromise;
-
-      if (!success) {
-        throw new Error('Upload failed');
+      if (multipart) {
+        const result = await uploadMultipart(file, {
+          prefix: options.prefix,
+          isPublic: options.isPublic,
+          metadata,
+          partSize: options.partSize,
+          concurrency: options.maxConcurrentParts,
+          signal: controller.signal,
+          onProgress: (loaded, total) => reportProgress(Math.round((loaded / total) * 100)),
+        });
+        ({ key, etag, resumed } = result);
+      } else {
+        ({ key, etag } = await uploadWithPresignedUrl(file, { ...options, metadata }, controller.signal, reportProgress));
       }
 
       // Step 3: Confirm the upload with the backend
@@ -181,6 +255,11 @@ export const useDirectUpload = () => {
         size: fileInfo.size,
         etag: fileInfo.etag,
         success: true,
+        resumed,
+        name: originalName ?? file.name,
+        hash: contentHash,
+        path: relativePath,
+        fileId,
       };
     } catch (error) {
       console.error('Error uploading file:', error);
@@ -204,12 +283,31 @@ export const useDirectUpload = () => {
         etag: '',
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
+        name: options.getOriginalName?.(file) ?? file.name,
+        fileId,
       };
     }
   };
 
+  /**
+   * Throw away the saved parts of a file so it uploads from scratch next time
+   */
+  const discardUpload = useCallback(async (file: File, prefix?: string) => {
+    await discardMultipartUpload(file, prefix);
+  }, []);
+
+  /**
+   * List uploads that were interrupted and can be resumed by adding the same file again
+   */
+  const getResumableUploads = useCallback((): Promise<StoredMultipartUpload[]> => {
+    return listStoredUploads();
+  }, []);
+
   /**
    * Upload multiple files directly to S3 with concurrency control
+   *
+   * The files must already be in the upload list; they are matched to their
+   * entries by identity, since different files can share a name and size.
    */
   const uploadFiles = async (
     files: File[],
@@ -225,12 +323,9 @@ export const useDirectUpload = () => {
       const maxConcurrent = options.maxConcurrentUploads || 3;
       const results: UploadResult[] = [];
       
-      // Add files to context
-      fileUploadContext.addFiles(files);
-      
       // Get file IDs from context
       const fileIds = Array.from(fileUploadContext.files.entries())
-        .filter(([_, file]) => files.some(f => f.name === file.name && f.size === file.size))
+        .filter(([_, file]) => files.includes(file))
         .map(([id]) => id);
       
       // Process files in batches to control concurrency
@@ -286,6 +381,8 @@ export const useDirectUpload = () => {
     uploadFiles,
     cancelUpload,
     cancelAllUploads,
+    discardUpload,
+    getResumableUploads,
     uploading,
     progress,
   };
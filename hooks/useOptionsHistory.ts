@@ -0,0 +1,128 @@
+import { useState, useCallback, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface OptionsHistoryEntry<T> {
+  id: string;
+  label: string;
+  value: T;
+  createdAt: string;
+}
+
+interface OptionsHistoryState<T> {
+  entries: OptionsHistoryEntry<T>[];
+  index: number;
+  // Changes in this group are merged into the current entry until it is sealed
+  openGroup: string | null;
+}
+
+interface OptionsHistoryOptions {
+  // Handle Ctrl+Z / Ctrl+Shift+Z (and Cmd on macOS) while true
+  shortcuts?: boolean;
+  // Oldest entries are dropped beyond this
+  limit?: number;
+}
+
+const createEntry = <T>(value: T, label: string): OptionsHistoryEntry<T> => ({
+  id: uuidv4(),
+  label,
+  value,
+  createdAt: new Date().toISOString(),
+});
+
+// Native undo keeps working in text fields
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA');
+
+/**
+ * Undo/redo stack for a settings object
+ *
+ * Changes that share a group, like the steps of one slider drag, become a
+ * single entry until `seal` is called.
+ */
+export const useOptionsHistory = <T>(initialValue: T, options: OptionsHistoryOptions = {}) => {
+  const { shortcuts = false, limit = 50 } = options;
+  const [state, setState] = useState<OptionsHistoryState<T>>(() => ({
+    entries: [createEntry(initialValue, 'Initial options')],
+    index: 0,
+    openGroup: null,
+  }));
+
+  /**
+   * Record a change; anything that could have been redone is dropped
+   */
+  const change = useCallback((updater: (prev: T) => T, label: string, group?: string) => {
+    setState(prev => {
+      const current = prev.entries[prev.index];
+      const value = updater(current.value);
+      if (JSON.stringify(value) === JSON.stringify(current.value)) return prev;
+
+      const kept = prev.entries.slice(0, prev.index + 1);
+      if (group && prev.openGroup === group && prev.index > 0) {
+        kept[prev.index] = { ...current, label, value };
+        return { entries: kept, index: prev.index, openGroup: group };
+      }
+
+      const entries = [...kept, createEntry(value, label)].slice(-limit);
+      return { entries, index: entries.length - 1, openGroup: group ?? null };
+    });
+  }, [limit]);
+
+  /**
+   * End the open group, so the next change gets an entry of its own
+   */
+  const seal = useCallback(() => {
+    setState(prev => prev.openGroup ? { ...prev, openGroup: null } : prev);
+  }, []);
+
+  /**
+   * Go to any entry, keeping the ones after it for redo
+   */
+  const jumpTo = useCallback((index: number) => {
+    setState(prev => index >= 0 && index < prev.entries.length
+      ? { ...prev, index, openGroup: null }
+      : prev);
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => prev.index > 0 ? { ...prev, index: prev.index - 1, openGroup: null } : prev);
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => prev.index < prev.entries.length - 1
+      ? { ...prev, index: prev.index + 1, openGroup: null }
+      : prev);
+  }, []);
+
+  useEffect(() => {
+    if (!shortcuts) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      if (isEditableTarget(event.target)) return;
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, undo, redo]);
+
+  return {
+    value: state.entries[state.index].value,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    change,
+    seal,
+    jumpTo,
+    undo,
+    redo,
+  };
+};
@@ -0,0 +1,150 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { fileApi } from '@/services/file.api';
+import { SketchConfig, SketchMethod } from '@/types';
+import { downscaleImage, ScaledImage } from '@/lib/image';
+import { renderSketchLocally } from '@/lib/sketch-worker';
+import { SweepAxis, SweepCell, SweepGrid, buildSweepGrid } from '@/lib/sketch-sweep';
+
+// Queued images are rendered in the browser, processed images again on the backend
+export type SweepSource =
+  | { type: 'local'; file: Blob }
+  | { type: 'server'; key: string };
+
+export interface SweepCellState extends SweepCell {
+  status: 'pending' | 'rendering' | 'completed' | 'failed';
+  url?: string;
+  // Set for backend results, whose links expire
+  sketchKey?: string;
+  error?: string;
+}
+
+interface SweepOptions {
+  // Long edge of the image local variants are rendered from
+  maxDimension?: number;
+}
+
+/**
+ * Render every cell of a parameter sweep, one at a time
+ */
+export const useParameterSweep = (options: SweepOptions = {}) => {
+  const { maxDimension = 320 } = options;
+  const [grid, setGrid] = useState<SweepGrid | null>(null);
+  const [cells, setCells] = useState<SweepCellState[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const controllerRef = useRef<AbortController | null>(null);
+  // Object URLs of local variants, released when the sweep is replaced
+  const objectUrls = useRef<string[]>([]);
+
+  const releaseObjectUrls = useCallback(() => {
+    objectUrls.current.forEach(url => URL.revokeObjectURL(url));
+    objectUrls.current = [];
+  }, []);
+
+  const updateCell = useCallback((index: number, update: Partial<SweepCellState>) => {
+    setCells(prev => prev.map((cell, i) => i === index ? { ...cell, ...update } : cell));
+  }, []);
+
+  /**
+   * Build the grid and render its cells; a running sweep is cancelled first
+   */
+  const run = useCallback(async (
+    source: SweepSource,
+    method: SketchMethod,
+    config: SketchConfig | undefined,
+    columns: SweepAxis,
+    rows?: SweepAxis | null
+  ) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const nextGrid = buildSweepGrid(method, config, columns, rows);
+    releaseObjectUrls();
+    setGrid(nextGrid);
+    setCells(nextGrid.cells.map(cell => ({ ...cell, status: 'pending' })));
+    setRunning(true);
+
+    try {
+      // The browser renders from one small copy, so every cell costs the same
+      let scaled: ScaledImage | null = null;
+      try {
+        scaled = source.type === 'local' ? await downscaleImage(source.file, maxDimension) : null;
+      } catch (error) {
+        // Nothing can be rendered from a source that does not decode
+        const message = error instanceof Error ? error.message : 'Failed to read the image';
+        setCells(prev => prev.map(cell => ({ ...cell, status: 'failed', error: message })));
+        throw error;
+      }
+
+      for (const [index, cell] of nextGrid.cells.entries()) {
+        if (controller.signal.aborted) return;
+        updateCell(index, { status: 'rendering' });
+
+        try {
+          if (scaled) {
+            const result = await renderSketchLocally(scaled.blob, {
+              method,
+              config: cell.config,
+              sourceScale: scaled.scale,
+              signal: controller.signal,
+            });
+            const url = URL.createObjectURL(result.blob);
+            objectUrls.current.push(url);
+            updateCell(index, { status: 'completed', url });
+          } else if (source.type === 'server') {
+            const { data } = await fileApi.processImage({
+              input_key: source.key,
+              method,
+              config: cell.config,
+            }, controller.signal);
+            if (!data.success || !data.download_url) {
+              throw new Error(data.error || 'Failed to process image');
+            }
+            updateCell(index, { status: 'completed', url: data.download_url, sketchKey: data.output_key });
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error('Error rendering sweep variant:', error);
+          updateCell(index, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Failed to render variant',
+          });
+        }
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(false);
+      }
+    }
+  }, [maxDimension, releaseObjectUrls, updateCell]);
+
+  /**
+   * Stop after the cell that is rendering; finished cells stay on the sheet
+   */
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRunning(false);
+    setCells(prev => prev.map(cell => cell.status === 'pending' || cell.status === 'rendering'
+      ? { ...cell, status: 'failed', error: 'Cancelled' }
+      : cell));
+  }, []);
+
+  // Stop rendering and release the variants on unmount
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+      releaseObjectUrls();
+    };
+  }, [releaseObjectUrls]);
+
+  return {
+    grid,
+    cells,
+    running,
+    run,
+    cancel,
+  };
+};
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import authApi from '@/services/auth.api';
+import { Subscription } from '@/types';
+import { getPlanLimits, PlanLimits } from '@/lib/plans';
+
+// Shared between every component on the page, the plan does not change while it is open
+let subscriptionRequest: Promise<Subscription | null> | null = null;
+
+const loadSubscription = () => {
+  if (!subscriptionRequest) {
+    subscriptionRequest = authApi.getSubscription()
+      .then(({ data }) => data)
+      .catch(error => {
+        console.error('Error loading subscription:', error);
+        // Try again on the next mount
+        subscriptionRequest = null;
+        return null;
+      });
+  }
+  return subscriptionRequest;
+};
+
+export const usePlanLimits = (enabled: boolean = true) => {
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [loading, setLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setLoading(true);
+    loadSubscription().then(result => {
+      if (cancelled) return;
+      setSubscription(result);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const limits: PlanLimits = getPlanLimits(subscription);
+
+  return { subscription, limits, loading };
+};
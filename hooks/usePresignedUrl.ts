@@ -0,0 +1,53 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  getPresignedUrl,
+  isPresignedUrl,
+  refreshPresignedUrl,
+  registerPresignedUrl,
+  subscribePresignedUrl,
+} from '@/lib/presigned-urls';
+
+/**
+ * The current link for a stored object, kept fresh while the component is mounted
+ *
+ * Local URLs (blob:, data:) and URLs without a key are passed through unchanged.
+ */
+export const usePresignedUrl = (key: string | undefined, url: string | undefined) => {
+  const managed = Boolean(key && isPresignedUrl(url));
+  const [currentUrl, setCurrentUrl] = useState(() => (managed && key ? getPresignedUrl(key) ?? url : url));
+  // An image is only retried once until it loads again
+  const retried = useRef(false);
+
+  useEffect(() => {
+    retried.current = false;
+    if (!key || !managed || !url) {
+      setCurrentUrl(url);
+      return;
+    }
+
+    registerPresignedUrl(key, url);
+    setCurrentUrl(getPresignedUrl(key) ?? url);
+    return subscribePresignedUrl(key, setCurrentUrl);
+  }, [key, url, managed]);
+
+  /**
+   * Ask for a new link once when the image fails, most likely because the old one expired
+   */
+  const handleError = useCallback(() => {
+    if (!key || !managed || retried.current) return;
+    retried.current = true;
+    refreshPresignedUrl(key).catch(error => {
+      console.warn(`Error refreshing download URL for ${key}:`, error);
+    });
+  }, [key, managed]);
+
+  const handleLoad = useCallback(() => {
+    retried.current = false;
+  }, []);
+
+  return {
+    url: currentUrl,
+    handleError,
+    handleLoad,
+  };
+};
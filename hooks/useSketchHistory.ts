@@ -0,0 +1,144 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { historyApi } from '@/services/history.api';
+import { SketchHistoryEntry, SketchMethod } from '@/types';
+import {
+  HISTORY_PAGE_SIZE,
+  HistoryCursor,
+  compareHistoryEntries,
+  deleteHistoryEntry,
+  listHistoryEntries,
+  saveHistoryEntries,
+} from '@/lib/history-store';
+import { resolvePresignedUrl } from '@/lib/presigned-urls';
+
+export interface HistoryFilters {
+  search: string;
+  methods: SketchMethod[];
+}
+
+interface HistoryOptions {
+  // Include entries recorded on other devices through the backend
+  sync?: boolean;
+}
+
+export const useSketchHistory = (filters: HistoryFilters, options: HistoryOptions = {}) => {
+  const { sync = true } = options;
+  const [entries, setEntries] = useState<SketchHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  // Thumbnail URLs by sketch key; presigned, so only fetched for entries that are listed
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  const cursor = useRef<HistoryCursor | undefined>(undefined);
+  // Bumped on every filter change so late pages of an old query are dropped
+  const generation = useRef(0);
+  const loadingRef = useRef(false);
+  // Turned off after the backend fails, the local history still works
+  const remoteAvailable = useRef(sync);
+
+  /**
+   * Load presigned URLs for the thumbnails of a page
+   */
+  const loadThumbnails = useCallback(async (page: SketchHistoryEntry[]) => {
+    const results = await Promise.allSettled(page.map(entry => resolvePresignedUrl(entry.sketchKey)));
+    const urls: Record<string, string> = {};
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') urls[page[index].sketchKey] = result.value;
+    });
+    setThumbnails(prev => ({ ...prev, ...urls }));
+  }, []);
+
+  /**
+   * Load the next page, merging the local history with the backend's
+   */
+  const loadMore = useCallback(async () => {
+    if (loadingRef.current) return;
+    loadingRef.current = true;
+    setLoading(true);
+
+    const currentGeneration = generation.current;
+    const query = { search: filters.search, methods: filters.methods, after: cursor.current, limit: HISTORY_PAGE_SIZE };
+
+    try {
+      const [local, remote] = await Promise.all([
+        listHistoryEntries(query),
+        remoteAvailable.current
+          ? historyApi.listHistory({
+              search: query.search,
+              methods: query.methods,
+              before: query.after?.completedAt,
+              before_id: query.after?.id,
+              limit: HISTORY_PAGE_SIZE,
+            }).then(({ data }) => data).catch(error => {
+              console.warn('Error loading history from the backend:', error);
+              remoteAvailable.current = false;
+              return null;
+            })
+          : Promise.resolve(null),
+      ]);
+      if (currentGeneration !== generation.current) return;
+
+      // Both sources list the same order, so their merged head is the next page
+      const merged = new Map<string, SketchHistoryEntry>();
+      [...(remote?.items ?? []), ...local.items].forEach(entry => {
+        if (!merged.has(entry.id)) merged.set(entry.id, entry);
+      });
+      const sorted = Array.from(merged.values()).sort(compareHistoryEntries);
+      const page = sorted.slice(0, HISTORY_PAGE_SIZE);
+
+      // Entries from other devices are kept locally too
+      if (remote) saveHistoryEntries(remote.items);
+
+      const last = page[page.length - 1];
+      if (last) cursor.current = { completedAt: last.completedAt, id: last.id };
+      setEntries(prev => [...prev, ...page]);
+      setHasMore(sorted.length > HISTORY_PAGE_SIZE || local.hasMore || Boolean(remote?.has_more));
+      loadThumbnails(page);
+    } finally {
+      if (currentGeneration === generation.current) {
+        loadingRef.current = false;
+        setLoading(false);
+      }
+    }
+  }, [filters.search, filters.methods, loadThumbnails]);
+
+  // Start over whenever the filters change
+  useEffect(() => {
+    generation.current++;
+    cursor.current = undefined;
+    loadingRef.current = false;
+    setEntries([]);
+    setHasMore(true);
+    loadMore();
+  }, [loadMore]);
+
+  /**
+   * Get a download URL for a sketch that has not expired yet
+   */
+  const getSketchUrl = useCallback((entry: SketchHistoryEntry) => resolvePresignedUrl(entry.sketchKey), []);
+
+  /**
+   * Remove an entry from the history, locally and on the backend
+   */
+  const removeEntry = useCallback(async (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    await deleteHistoryEntry(id);
+    if (remoteAvailable.current) {
+      try {
+        await historyApi.deleteHistoryEntry(id);
+      } catch (error) {
+        console.warn('Error deleting history entry on the backend:', error);
+      }
+    }
+  }, []);
+
+  return {
+    entries,
+    thumbnails,
+    loading,
+    hasMore,
+    loadMore,
+    getSketchUrl,
+    removeEntry,
+  };
+};
@@ -0,0 +1,168 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { presetApi } from '@/services/preset.api';
+import { SketchMethod, SketchConfig, SketchPreset } from '@/types';
+import {
+  BUILT_IN_PRESETS,
+  loadStoredPresets,
+  storePresets,
+  serializePresets,
+  parsePresetFile,
+} from '@/lib/presets';
+
+interface PresetOptions {
+  // Mirror user presets to the backend in addition to localStorage
+  sync?: boolean;
+}
+
+export const useSketchPresets = (options: PresetOptions = {}) => {
+  const { sync = false } = options;
+  const [userPresets, setUserPresets] = useState<SketchPreset[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setUserPresets(loadStoredPresets());
+  }, []);
+
+  /**
+   * Replace the user presets and persist them
+   */
+  const updatePresets = useCallback((updater: (prev: SketchPreset[]) => SketchPreset[]) => {
+    setUserPresets(prev => {
+      const next = updater(prev);
+      storePresets(next);
+      return next;
+    });
+  }, []);
+
+  /**
+   * Merge presets from the backend, keeping whichever copy was updated last
+   */
+  const syncPresets = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const { data } = await presetApi.listPresets();
+      updatePresets(prev => {
+        const merged = new Map(prev.map(preset => [preset.id, preset]));
+        data.forEach(remote => {
+          const local = merged.get(remote.id);
+          if (!local || local.updatedAt < remote.updatedAt) {
+            merged.set(remote.id, { ...remote, builtIn: false });
+          }
+        });
+        return Array.from(merged.values());
+      });
+    } catch (error) {
+      console.error('Error syncing presets:', error);
+    } finally {
+      setSyncing(false);
+    }
+  }, [updatePresets]);
+
+  useEffect(() => {
+    if (sync) {
+      syncPresets();
+    }
+  }, [sync, syncPresets]);
+
+  /**
+   * Save options under a name, overwriting a user preset with the same name
+   */
+  const savePreset = useCallback((name: string, method: SketchMethod, config: SketchConfig = {}) => {
+    const now = new Date().toISOString();
+    const trimmedName = name.trim();
+    const existing = userPresets.find(preset => preset.name === trimmedName);
+
+    const preset: SketchPreset = {
+      id: existing?.id || uuidv4(),
+      name: trimmedName,
+      method,
+      config,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    updatePresets(prev => [...prev.filter(p => p.id !== preset.id), preset]);
+
+    if (sync) {
+      presetApi.savePreset({ id: preset.id, name: preset.name, method, config })
+        .catch(error => console.error('Error saving preset to server:', error));
+    }
+
+    return preset;
+  }, [userPresets, updatePresets, sync]);
+
+  /**
+   * Delete a user preset (built-in presets cannot be deleted)
+   */
+  const deletePreset = useCallback((id: string) => {
+    updatePresets(prev => prev.filter(preset => preset.id !== id));
+
+    if (sync) {
+      presetApi.deletePreset(id)
+        .catch(error => console.error('Error deleting preset on server:', error));
+    }
+  }, [updatePresets, sync]);
+
+  /**
+   * Import presets from an exported JSON file. Throws if the file is invalid.
+   */
+  const importPresets = useCallback(async (file: File) => {
+    const imported = parsePresetFile(await file.text());
+    const now = new Date().toISOString();
+
+    const presets: SketchPreset[] = imported.map(preset => ({
+      id: uuidv4(),
+      name: preset.name,
+      method: preset.method as SketchMethod,
+      config: preset.config || {},
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    updatePresets(prev => {
+      const importedNames = new Set(presets.map(preset => preset.name));
+      return [...prev.filter(preset => !importedNames.has(preset.name)), ...presets];
+    });
+
+    if (sync) {
+      presets.forEach(preset => {
+        presetApi.savePreset({ id: preset.id, name: preset.name, method: preset.method, config: preset.config })
+          .catch(error => console.error('Error saving preset to server:', error));
+      });
+    }
+
+    return presets;
+  }, [updatePresets, sync]);
+
+  /**
+   * Download the given presets (all user presets by default) as JSON
+   */
+  const exportPresets = useCallback((presetsToExport: SketchPreset[] = userPresets) => {
+    const blob = new Blob([serializePresets(presetsToExport)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sketch-presets-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  }, [userPresets]);
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets], [userPresets]);
+
+  return {
+    presets,
+    userPresets,
+    savePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+    syncPresets,
+    syncing,
+  };
+};
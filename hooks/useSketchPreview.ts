@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef } from 'react';
+import { SketchMethod, SketchConfig } from '@/types';
+import { downscaleImage } from '@/lib/image';
+import { isLocalRenderingSupported, renderSketchLocally } from '@/lib/sketch-worker';
+
+interface PreviewOptions {
+  maxDimension?: number;
+  debounceMs?: number;
+}
+
+interface PreviewState {
+  url: string | null;
+  width: number;
+  height: number;
+  duration: number;
+  error: string | null;
+}
+
+const initialPreviewState: PreviewState = {
+  url: null,
+  width: 0,
+  height: 0,
+  duration: 0,
+  error: null,
+};
+
+/**
+ * Render a low-resolution sketch of an image and re-render it, debounced,
+ * whenever the method or config changes
+ */
+export const useSketchPreview = (
+  source: Blob | null | undefined,
+  method: SketchMethod,
+  config: SketchConfig | undefined,
+  options: PreviewOptions = {}
+) => {
+  const { maxDimension = 384, debounceMs = 250 } = options;
+
+  const [preview, setPreview] = useState<PreviewState>(initialPreviewState);
+  const [scaledSource, setScaledSource] = useState<{ blob: Blob; scale: number } | null>(null);
+  const [rendering, setRendering] = useState(false);
+  const [stale, setStale] = useState(false);
+
+  const previewUrlRef = useRef<string | null>(null);
+  const supported = isLocalRenderingSupported();
+
+  // Downscale the source once so each re-render only touches a small image
+  useEffect(() => {
+    setScaledSource(null);
+    setPreview(initialPreviewState);
+    setStale(false);
+    if (!source || !supported) return;
+
+    let cancelled = false;
+    downscaleImage(source, maxDimension)
+      .then(({ blob, scale }) => {
+        if (!cancelled) setScaledSource({ blob, scale });
+      })
+      .catch((error) => {
+        console.error('Error preparing preview source:', error);
+        if (!cancelled) {
+          setPreview(prev => ({ ...prev, error: 'Could not read this image' }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, maxDimension, supported]);
+
+  // Serialised so a new but identical config object does not trigger a render
+  const configKey = JSON.stringify(config || {});
+
+  useEffect(() => {
+    if (!scaledSource) return;
+
+    setStale(true);
+    const controller = new AbortController();
+
+    const timer = setTimeout(async () => {
+      setRendering(true);
+      try {
+        const result = await renderSketchLocally(scaledSource.blob, {
+          method,
+          config: JSON.parse(configKey) as SketchConfig,
+          sourceScale: scaledSource.scale,
+          signal: controller.signal,
+        });
+
+        const url = URL.createObjectURL(result.blob);
+        if (previewUrlRef.current) {
+          URL.revokeObjectURL(previewUrlRef.current);
+        }
+        previewUrlRef.current = url;
+
+        setPreview({
+          url,
+          width: result.width,
+          height: result.height,
+          duration: result.duration,
+          error: null,
+        });
+        setStale(false);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error rendering preview:', error);
+        setPreview(prev => ({
+          ...prev,
+          error: error instanceof Error ? error.message : 'Failed to render preview',
+        }));
+        setStale(false);
+      } finally {
+        if (!controller.signal.aborted) {
+          setRendering(false);
+        }
+      }
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setRendering(false);
+    };
+  }, [scaledSource, method, configKey, debounceMs]);
+
+  // Release the last preview image on unmount
+  useEffect(() => {
+    return () => {
+      if (previewUrlRef.current) {
+        URL.revokeObjectURL(previewUrlRef.current);
+        previewUrlRef.current = null;
+      }
+    };
+  }, []);
+
+  return {
+    ...preview,
+    rendering,
+    stale,
+    supported,
+  };
+};
@@ -1,18 +1,248 @@
-import { useState, useCallback } from 'react';
-import { fileApi } from '@/services/file.api';
-import { SketchMethod, SketchConfig, SketchFile } from '@/types';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { BatchProcessItem, fileApi } from '@/services/file.api';
+import { historyApi } from '@/services/history.api';
+import { SketchMethod, SketchConfig, SketchFile, SketchHistoryEntry, SketchProcessingOptions, ProcessingMode } from '@/types';
+import { isLocalRenderingSupported, renderSketchLocally } from '@/lib/sketch-worker';
+import {
+  applyJobUpdate,
+  getJobProgress,
+  loadActiveJobs,
+  removeActiveJob,
+  saveActiveJob,
+} from '@/lib/jobs';
+import { watchProcessJob, ChannelState, ProgressTransport } from '@/lib/progress-channel';
+import { cacheSketch, forgetCachedSketch, getCachedSketch, getSketchCacheKey } from '@/lib/sketch-cache';
+import { saveHistoryEntries, toHistoryEntry } from '@/lib/history-store';
+import { refreshPresignedUrl, resolvePresignedUrl } from '@/lib/presigned-urls';
+import { archiveShownVersion, removeVersion, showVersion } from '@/lib/sketch-versions';
 import { v4 as uuidv4 } from 'uuid';
 
 interface ProcessOptions {
   method?: SketchMethod;
   config?: SketchConfig;
   onProgress?: (progress: number) => void;
+  mode?: ProcessingMode;
+  localMaxSize?: number;
+  // SHA-256 of the source image, lets an earlier identical sketch be reused
+  contentHash?: string;
 }
 
+interface UploadedImage {
+  key: string;
+  size: number;
+  name: string;
+  hash?: string;
+  // Replaces the method and config of the batch for this image
+  settings?: SketchProcessingOptions;
+}
+
+// Images up to this size are rendered in the browser when the mode is 'auto'
+export const LOCAL_PROCESSING_MAX_SIZE = 2 * 1024 * 1024;
+
+// Local keys never reach the backend, they only identify the source file
+const LOCAL_KEY_PREFIX = 'local/';
+
+const isInFlight = (file: SketchFile) => file.status === 'pending' || file.status === 'processing';
+
+// Replace a file with its result, unless it was cancelled while the result was on its way
+const replaceUnlessCancelled = (files: SketchFile[], updated: SketchFile) =>
+  files.map(file => file.id === updated.id && file.status !== 'cancelled' ? updated : file);
+
+// Share one abort controller between the files of a single request
+const trackController = (controllers: Map<string, AbortController>, fileIds: string[]) => {
+  const controller = new AbortController();
+  fileIds.forEach(fileId => controllers.set(fileId, controller));
+  return controller;
+};
+
+const untrackController = (controllers: Map<string, AbortController>, controller: AbortController) => {
+  controllers.forEach((value, fileId) => {
+    if (value === controller) controllers.delete(fileId);
+  });
+};
+
+/**
+ * Complete files whose image was already sketched with the same method and config
+ */
+const reuseCachedSketches = (files: SketchFile[]) =>
+  Promise.all(files.map(async (file): Promise<SketchFile> => {
+    if (!file.contentHash) return file;
+
+    const cacheKey = getSketchCacheKey(file.contentHash, file.method, file.config);
+    const cached = getCachedSketch(cacheKey);
+    if (!cached) return file;
+
+    try {
+      const url = await refreshPresignedUrl(cached.outputKey);
+      return {
+        ...file,
+        sketchKey: cached.outputKey,
+        sketchUrl: url,
+        status: 'completed',
+        progress: 100,
+        cached: true
+      };
+    } catch (error) {
+      // The output has been deleted since, so the image is processed again
+      console.warn(`Cached sketch for ${file.name} is gone:`, error);
+      forgetCachedSketch(cacheKey);
+      return file;
+    }
+  }));
+
+/**
+ * Remember the outputs of freshly processed files for identical images later on
+ */
+const rememberSketches = (files: SketchFile[]) => {
+  files.forEach(file => {
+    if (file.status === 'completed' && file.source !== 'local' && !file.cached && file.contentHash && file.sketchKey) {
+      cacheSketch(getSketchCacheKey(file.contentHash, file.method, file.config), file.sketchKey);
+    }
+  });
+};
+
+/**
+ * Method and config of one image, its own settings taking the place of the batch's
+ */
+const resolveFileSettings = (settings: SketchProcessingOptions | undefined, options: ProcessOptions) => ({
+  method: settings?.method ?? options.method ?? SketchMethod.ADVANCED,
+  config: settings ? settings.config : options.config,
+});
+
+/**
+ * Per-item settings for a batch request, left out when every file uses the batch settings
+ */
+const getBatchItems = (files: SketchFile[], options: ProcessOptions): BatchProcessItem[] | undefined => {
+  const defaults = resolveFileSettings(undefined, options);
+  const differs = files.some(file => file.method !== defaults.method || file.config !== defaults.config);
+  if (!differs) return undefined;
+
+  return files.map(file => ({ input_key: file.originalKey, method: file.method, config: file.config }));
+};
+
+/**
+ * Decide whether a file of the given size is rendered locally or on the server
+ */
+export const resolveProcessingMode = (
+  fileSize: number,
+  mode: ProcessingMode = 'server',
+  localMaxSize: number = LOCAL_PROCESSING_MAX_SIZE
+): 'local' | 'server' => {
+  if (mode === 'server' || !isLocalRenderingSupported()) return 'server';
+  if (mode === 'local') return 'local';
+  return fileSize <= localMaxSize ? 'local' : 'server';
+};
+
 export const useSketchProcessing = () => {
   const [processing, setProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [files, setFiles] = useState<SketchFile[]>([]);
+  // Files already written to the history
+  const recordedIds = useRef(new Set<string>());
+  // How job progress is currently being received
+  const [channel, setChannel] = useState<{ state: ChannelState; transport: ProgressTransport } | null>(null);
+  
+  // Source files for locally rendered sketches, keyed by their local key
+  const localSources = useRef(new Map<string, File>());
+  // Object URLs created for local sketches, revoked when the file is removed
+  const objectUrls = useRef(new Map<string, string[]>());
+  // Object URLs of method comparison results until they are kept or discarded
+  const candidateUrls = useRef(new Map<string, string>());
+  // Abort controllers for jobs that are being watched
+  const jobControllers = useRef(new Map<string, AbortController>());
+  // Abort controllers for direct requests and local renders, keyed by file id
+  const fileControllers = useRef(new Map<string, AbortController>());
+  // Stops the local render queue before it starts the next file
+  const localQueueController = useRef<AbortController | null>(null);
+  // Jobs the backend has paused
+  const [pausedJobs, setPausedJobs] = useState<string[]>([]);
+
+  const revokeObjectUrls = useCallback((fileId: string) => {
+    objectUrls.current.get(fileId)?.forEach(url => URL.revokeObjectURL(url));
+    objectUrls.current.delete(fileId);
+  }, []);
+
+  /**
+   * Drop a file's abort controller, aborting it once no other file shares it
+   */
+  const releaseController = useCallback((fileId: string) => {
+    const controller = fileControllers.current.get(fileId);
+    if (!controller) return;
+
+    fileControllers.current.delete(fileId);
+    const shared = Array.from(fileControllers.current.values()).includes(controller);
+    if (!shared) {
+      controller.abort();
+    }
+  }, []);
+
+  /**
+   * Render a sketch in the browser and track it like a server result
+   */
+  const renderLocalFile = useCallback(async (
+    source: File,
+    originalKey: string,
+    options: ProcessOptions = {}
+  ): Promise<SketchFile> => {
+    const fileId = uuidv4();
+    const originalUrl = URL.createObjectURL(source);
+    objectUrls.current.set(fileId, [originalUrl]);
+
+    const sketchFile: SketchFile = {
+      id: fileId,
+      originalKey,
+      originalUrl,
+      name: source.name,
+      size: source.size,
+      method: options.method || SketchMethod.ADVANCED,
+      config: options.config,
+      createdAt: new Date().toISOString(),
+      status: 'processing',
+      source: 'local'
+    };
+
+    setFiles(prevFiles => [...prevFiles, sketchFile]);
+    const controller = trackController(fileControllers.current, [fileId]);
+
+    try {
+      const { blob } = await renderSketchLocally(source, {
+        method: sketchFile.method,
+        config: options.config,
+        signal: controller.signal,
+      });
+
+      const sketchUrl = URL.createObjectURL(blob);
+      objectUrls.current.get(fileId)?.push(sketchUrl);
+
+      const updatedFile: SketchFile = {
+        ...sketchFile,
+        sketchUrl,
+        status: 'completed'
+      };
+
+      setFiles(prevFiles => replaceUnlessCancelled(prevFiles, updatedFile));
+
+      return updatedFile;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return { ...sketchFile, status: 'cancelled' };
+      }
+
+      console.error('Error rendering sketch locally:', error);
+
+      const errorFile: SketchFile = {
+        ...sketchFile,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+
+      setFiles(prevFiles => replaceUnlessCancelled(prevFiles, errorFile));
+
+      return errorFile;
+    } finally {
+      untrackController(fileControllers.current, controller);
+    }
+  }, []);
 
   /**
    * Process a single image to convert it to a sketch
@@ -23,20 +253,44 @@ export const useSketchProcessing = () => {
     fileSize: number,
     options: ProcessOptions = {}
   ): Promise<SketchFile> => {
+    // Files that were rendered locally are reprocessed locally as well
+    const localSource = localSources.current.get(originalKey);
+    if (localSource) {
+      setProcessing(true);
+      try {
+        return await renderLocalFile(localSource, originalKey, options);
+      } finally {
+        setProcessing(false);
+      }
+    }
+
+    const fileId = uuidv4();
+    const controller = trackController(fileControllers.current, [fileId]);
+
     try {
       setProcessing(true);
       
       // Create a sketch file object
-      const fileId = uuidv4();
       const sketchFile: SketchFile = {
         id: fileId,
         originalKey,
         name: fileName,
         size: fileSize,
         method: options.method || SketchMethod.ADVANCED,
-        status: 'processing'
+        config: options.config,
+        createdAt: new Date().toISOString(),
+        status: 'processing',
+        source: 'server',
+        contentHash: options.contentHash
       };
       
+      // Reuse an earlier sketch of the same image instead of processing it again
+      const [cachedFile] = await reuseCachedSketches([sketchFile]);
+      if (cachedFile.status === 'completed') {
+        setFiles(prevFiles => [...prevFiles, cachedFile]);
+        return cachedFile;
+      }
+
       // Update files state
       setFiles(prevFiles => [...prevFiles, sketchFile]);
       
@@ -45,7 +299,7 @@ export const useSketchProcessing = () => {
         input_key: originalKey,
         method: options.method,
         config: options.config
-      });
+      }, controller.signal);
       
       if (!data.success) {
         throw new Error(data.error || 'Failed to process image');
@@ -58,14 +312,27 @@ export const useSketchProcessing = () => {
         sketchUrl: data.download_url,
         status: 'completed'
       };
+      rememberSketches([updatedFile]);
       
       // Update files state
-      setFiles(prevFiles => 
-        prevFiles.map(file => file.id === fileId ? updatedFile : file)
-      );
+      setFiles(prevFiles => replaceUnlessCancelled(prevFiles, updatedFile));
       
       return updatedFile;
     } catch (error) {
+      if (controller.signal.aborted) {
+        return {
+          id: fileId,
+          originalKey,
+          name: fileName,
+          size: fileSize,
+          method: options.method || SketchMethod.ADVANCED,
+          config: options.config,
+          createdAt: new Date().toISOString(),
+          status: 'cancelled',
+          source: 'server'
+        };
+      }
+
       console.error('Error processing image:', error);
       
       // Update the sketch file with the error
@@ -75,6 +342,8 @@ export const useSketchProcessing = () => {
         name: fileName,
         size: fileSize,
         method: options.method || SketchMethod.ADVANCED,
+        config: options.config,
+        createdAt: new Date().toISOString(),
         status: 'failed',
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       };
@@ -88,45 +357,237 @@ export const useSketchProcessing = () => {
       
       return errorFile;
     } finally {
+      untrackController(fileControllers.current, controller);
       setProcessing(false);
     }
+  }, [renderLocalFile]);
+
+  /**
+   * Remove a file by ID
+   */
+  const removeFile = useCallback((fileId: string) => {
+    releaseController(fileId);
+    revokeObjectUrls(fileId);
+    setFiles(prevFiles => {
+      const removed = prevFiles.find(file => file.id === fileId);
+      const remaining = prevFiles.filter(file => file.id !== fileId);
+      // The original is kept while another card, such as a kept comparison result, still uses it
+      if (removed && !remaining.some(file => file.originalKey === removed.originalKey)) {
+        localSources.current.delete(removed.originalKey);
+      }
+      return remaining;
+    });
+  }, [releaseController, revokeObjectUrls]);
+
+  /**
+   * Process a file's original again as a new version of the same card
+   *
+   * The output shown so far is kept among the file's versions.
+   */
+  const reprocessFile = useCallback(async (
+    file: SketchFile,
+    options: ProcessOptions = {}
+  ): Promise<SketchFile> => {
+    const localSource = localSources.current.get(file.originalKey);
+    const pendingFile: SketchFile = {
+      ...file,
+      versionId: uuidv4(),
+      versions: archiveShownVersion(file),
+      method: options.method || SketchMethod.ADVANCED,
+      config: options.config,
+      createdAt: new Date().toISOString(),
+      status: 'processing',
+      sketchKey: undefined,
+      sketchUrl: undefined,
+      error: undefined,
+      cached: undefined,
+      jobId: undefined,
+      progress: undefined
+    };
+
+    setFiles(prevFiles => prevFiles.map(f => f.id === file.id ? pendingFile : f));
+    setProcessing(true);
+    const controller = trackController(fileControllers.current, [file.id]);
+
+    try {
+      let updatedFile: SketchFile;
+      if (localSource) {
+        const { blob } = await renderSketchLocally(localSource, {
+          method: pendingFile.method,
+          config: options.config,
+          signal: controller.signal,
+        });
+        const sketchUrl = URL.createObjectURL(blob);
+        objectUrls.current.set(file.id, [...(objectUrls.current.get(file.id) ?? []), sketchUrl]);
+        updatedFile = { ...pendingFile, sketchUrl, status: 'completed' };
+      } else {
+        const [cachedFile] = await reuseCachedSketches([pendingFile]);
+        if (cachedFile.status === 'completed') {
+          updatedFile = cachedFile;
+        } else {
+          const { data } = await fileApi.processImage({
+            input_key: file.originalKey,
+            method: options.method,
+            config: options.config
+          }, controller.signal);
+
+          if (!data.success) {
+            throw new Error(data.error || 'Failed to process image');
+          }
+          updatedFile = { ...pendingFile, sketchKey: data.output_key, sketchUrl: data.download_url, status: 'completed' };
+          rememberSketches([updatedFile]);
+        }
+      }
+
+      setFiles(prevFiles => replaceUnlessCancelled(prevFiles, updatedFile));
+      return updatedFile;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return { ...pendingFile, status: 'cancelled' };
+      }
+
+      console.error('Error reprocessing image:', error);
+      const errorFile: SketchFile = {
+        ...pendingFile,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+      setFiles(prevFiles => replaceUnlessCancelled(prevFiles, errorFile));
+      return errorFile;
+    } finally {
+      untrackController(fileControllers.current, controller);
+      setProcessing(jobControllers.current.size > 0 || fileControllers.current.size > 0);
+    }
   }, []);
 
+  /**
+   * Show an earlier or later version of a file
+   */
+  const restoreVersion = useCallback((fileId: string, versionId: string) => {
+    setFiles(prevFiles => prevFiles.map(file => file.id === fileId ? showVersion(file, versionId) : file));
+  }, []);
+
+  /**
+   * Delete one version of a file, and the file with its last version
+   */
+  const deleteVersion = useCallback((fileId: string, versionId: string) => {
+    const file = files.find(f => f.id === fileId);
+    if (!file) return;
+
+    const remaining = removeVersion(file, versionId);
+    const removed = [...(file.versions ?? []), { id: file.versionId ?? file.id, sketchUrl: file.sketchUrl }]
+      .find(version => version.id === versionId);
+
+    // Only locally rendered versions hold a browser object URL
+    if (remaining && removed?.sketchUrl?.startsWith('blob:')) {
+      URL.revokeObjectURL(removed.sketchUrl);
+      objectUrls.current.set(fileId, (objectUrls.current.get(fileId) ?? []).filter(url => url !== removed.sketchUrl));
+    }
+
+    if (!remaining) {
+      removeFile(fileId);
+      return;
+    }
+    setFiles(prevFiles => prevFiles.map(f => f.id === fileId ? remaining : f));
+  }, [files, removeFile]);
+
+  /**
+   * Render images in the browser without uploading them
+   *
+   * `settings` lines up with `sourceFiles` and replaces the method and config for single files.
+   */
+  const processLocalFiles = useCallback(async (
+    sourceFiles: File[],
+    options: ProcessOptions = {},
+    settings: Array<SketchProcessingOptions | undefined> = []
+  ): Promise<SketchFile[]> => {
+    if (!sourceFiles.length) return [];
+
+    setProcessing(true);
+    setProgress(0);
+
+    localQueueController.current?.abort();
+    const queueController = new AbortController();
+    localQueueController.current = queueController;
+
+    try {
+      const results: SketchFile[] = [];
+
+      // The worker renders one image at a time, so there is no point in running them in parallel
+      for (const [index, source] of sourceFiles.entries()) {
+        if (queueController.signal.aborted) break;
+
+        const originalKey = `${LOCAL_KEY_PREFIX}${uuidv4()}/${source.name}`;
+        localSources.current.set(originalKey, source);
+
+        results.push(await renderLocalFile(source, originalKey, { ...options, ...resolveFileSettings(settings[index], options) }));
+
+        const currentProgress = Math.round(((index + 1) / sourceFiles.length) * 100);
+        setProgress(currentProgress);
+        options.onProgress?.(currentProgress);
+      }
+
+      return results;
+    } finally {
+      if (localQueueController.current === queueController) {
+        localQueueController.current = null;
+      }
+      setProcessing(false);
+    }
+  }, [renderLocalFile]);
+
   /**
    * Process multiple images in batch
    */
   const batchProcessImages = useCallback(async (
-    uploadResults: Array<{key: string, size: number, name: string}>,
+    uploadResults: UploadedImage[],
     options: ProcessOptions = {}
   ): Promise<SketchFile[]> => {
+    let controller: AbortController | null = null;
+    let pendingFiles: SketchFile[] = [];
+
     try {
       if (!uploadResults.length) return [];
       
       setProcessing(true);
       setProgress(0);
       
-      // Create sketch file objects for each image
-      const pendingFiles: SketchFile[] = uploadResults.map(result => ({
+      // Create sketch file objects for each image, completing the ones processed before
+      const sketchFiles = await reuseCachedSketches(uploadResults.map(result => ({
         id: uuidv4(),
         originalKey: result.key,
         name: result.name,
         size: result.size,
-        method: options.method || SketchMethod.ADVANCED,
-        status: 'pending'
-      }));
+        ...resolveFileSettings(result.settings, options),
+        createdAt: new Date().toISOString(),
+        status: 'pending',
+        source: 'server',
+        contentHash: result.hash
+      })));
+      pendingFiles = sketchFiles.filter(file => file.status === 'pending');
       
       // Update files state
-      setFiles(prevFiles => [...prevFiles, ...pendingFiles]);
+      setFiles(prevFiles => [...prevFiles, ...sketchFiles]);
+      
+      if (!pendingFiles.length) {
+        setProgress(100);
+        options.onProgress?.(100);
+        return sketchFiles;
+      }
+      
+      // The whole batch is one request, so it is only aborted once every file is cancelled
+      controller = trackController(fileControllers.current, pendingFiles.map(file => file.id));
       
       // Extract input keys
-      const inputKeys = uploadResults.map(result => result.key);
+      const inputKeys = pendingFiles.map(file => file.originalKey);
       
       // Process the images in batch
       const { data } = await fileApi.batchProcessImages({
         input_keys: inputKeys,
         method: options.method,
         config: options.config,
-      });
+        items: getBatchItems(pendingFiles, options),
+      }, controller.signal);
       
       if (!data.success) {
         throw new Error('Batch processing failed');
@@ -162,14 +623,22 @@ export const useSketchProcessing = () => {
         
         // Update processed files
         processedFiles.forEach(file => {
-          fileMap.set(file.id, file);
+          if (fileMap.get(file.id)?.status !== 'cancelled') {
+            fileMap.set(file.id, file);
+          }
         });
         
         return Array.from(fileMap.values());
       });
+      rememberSketches(processedFiles);
       
-      return processedFiles;
+      const processedById = new Map(processedFiles.map(file => [file.id, file]));
+      return sketchFiles.map(file => processedById.get(file.id) ?? file);
     } catch (error) {
+      if (controller?.signal.aborted) {
+        return pendingFiles.map(file => ({ ...file, status: 'cancelled' }));
+      }
+
       console.error('Error batch processing images:', error);
       
       // Mark all files as failed
@@ -178,7 +647,8 @@ export const useSketchProcessing = () => {
         originalKey: result.key,
         name: result.name,
         size: result.size,
-        method: options.method || SketchMethod.ADVANCED,
+        ...resolveFileSettings(result.settings, options),
+        createdAt: new Date().toISOString(),
         status: 'failed' as const,
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       }));
@@ -193,31 +663,422 @@ export const useSketchProcessing = () => {
       
       return failedFiles;
     } finally {
+      if (controller) untrackController(fileControllers.current, controller);
       setProcessing(false);
     }
   }, []);
 
+  /**
+   * Follow a submitted job until it finishes, merging results as they arrive
+   */
+  const watchJob = useCallback(async (
+    jobId: string,
+    jobFiles: SketchFile[],
+    onProgress?: (progress: number) => void
+  ): Promise<SketchFile[]> => {
+    jobControllers.current.get(jobId)?.abort();
+    const controller = new AbortController();
+    jobControllers.current.set(jobId, controller);
+    setProcessing(true);
+
+    let latestFiles = jobFiles;
+
+    try {
+      await watchProcessJob(jobId, {
+        signal: controller.signal,
+        onStateChange: (state, transport) => setChannel({ state, transport }),
+        onUpdate: (job) => {
+          setPausedJobs(prevJobs => {
+            const paused = job.status === 'paused';
+            if (paused === prevJobs.includes(jobId)) return prevJobs;
+            return paused ? [...prevJobs, jobId] : prevJobs.filter(id => id !== jobId);
+          });
+
+          latestFiles = applyJobUpdate(latestFiles, job);
+          setFiles(prevFiles => applyJobUpdate(prevFiles, job));
+          saveActiveJob({ jobId, files: latestFiles, submittedAt: new Date().toISOString() });
+
+          const jobProgress = getJobProgress(job);
+          setProgress(jobProgress);
+          onProgress?.(jobProgress);
+        },
+      });
+
+      removeActiveJob(jobId);
+      return latestFiles;
+    } catch (error) {
+      // An aborted watch is resumed on the next mount, so the job is kept
+      if (controller.signal.aborted) return latestFiles;
+
+      console.error('Error watching job:', error);
+      removeActiveJob(jobId);
+
+      const message = error instanceof Error ? error.message : 'Lost track of processing job';
+      const failedIds = new Set(
+        latestFiles.filter(file => file.status !== 'completed').map(file => file.id)
+      );
+      latestFiles = latestFiles.map(file =>
+        failedIds.has(file.id) ? { ...file, status: 'failed', error: message } : file
+      );
+      setFiles(prevFiles => prevFiles.map(file =>
+        failedIds.has(file.id) ? { ...file, status: 'failed', error: message } : file
+      ));
+
+      return latestFiles;
+    } finally {
+      if (jobControllers.current.get(jobId) === controller) {
+        jobControllers.current.delete(jobId);
+        setPausedJobs(prevJobs => prevJobs.filter(id => id !== jobId));
+      }
+      setProcessing(jobControllers.current.size > 0);
+    }
+  }, []);
+
+  /**
+   * Submit images as an asynchronous job and track per-file progress
+   */
+  const processBatchJob = useCallback(async (
+    uploadResults: UploadedImage[],
+    options: ProcessOptions = {}
+  ): Promise<SketchFile[]> => {
+    if (!uploadResults.length) return [];
+
+    setProcessing(true);
+    setProgress(0);
+
+    // Images processed before with the same settings are not submitted again
+    const sketchFiles = await reuseCachedSketches(uploadResults.map(result => ({
+      id: uuidv4(),
+      originalKey: result.key,
+      name: result.name,
+      size: result.size,
+      ...resolveFileSettings(result.settings, options),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      source: 'server',
+      progress: 0,
+      contentHash: result.hash
+    })));
+    const pendingFiles = sketchFiles.filter(file => file.status === 'pending');
+
+    setFiles(prevFiles => [...prevFiles, ...sketchFiles]);
+
+    if (!pendingFiles.length) {
+      setProgress(100);
+      options.onProgress?.(100);
+      setProcessing(jobControllers.current.size > 0);
+      return sketchFiles;
+    }
+
+    const controller = trackController(fileControllers.current, pendingFiles.map(file => file.id));
+
+    try {
+      const { data } = await fileApi.submitProcessJob({
+        input_keys: pendingFiles.map(file => file.originalKey),
+        method: options.method,
+        config: options.config,
+        items: getBatchItems(pendingFiles, options),
+      }, controller.signal);
+
+      // Files cancelled while the job was being submitted are cancelled on the backend as well
+      const cancelledIds = new Set(pendingFiles
+        .filter(file => fileControllers.current.get(file.id) !== controller)
+        .map(file => file.id));
+      untrackController(fileControllers.current, controller);
+      if (cancelledIds.size > 0) {
+        fileApi.cancelProcessJob(data.job_id, {
+          input_keys: pendingFiles.filter(file => cancelledIds.has(file.id)).map(file => file.originalKey)
+        }).catch(error => console.error('Error cancelling file:', error));
+      }
+
+      const jobFiles = pendingFiles
+        .filter(file => !cancelledIds.has(file.id))
+        .map(file => ({ ...file, jobId: data.job_id }));
+      const jobFileIds = new Set(jobFiles.map(file => file.id));
+
+      setFiles(prevFiles => prevFiles.map(file =>
+        jobFileIds.has(file.id) ? { ...file, jobId: data.job_id } : file
+      ));
+      saveActiveJob({ jobId: data.job_id, files: jobFiles, submittedAt: new Date().toISOString() });
+
+      const watchedFiles = await watchJob(data.job_id, jobFiles, options.onProgress);
+      rememberSketches(watchedFiles);
+
+      const watchedById = new Map(watchedFiles.map(file => [file.id, file]));
+      return sketchFiles.map(file => cancelledIds.has(file.id)
+        ? { ...file, status: 'cancelled' }
+        : watchedById.get(file.id) ?? file);
+    } catch (error) {
+      untrackController(fileControllers.current, controller);
+      if (controller.signal.aborted) {
+        setProcessing(jobControllers.current.size > 0);
+        return pendingFiles.map(file => ({ ...file, status: 'cancelled' }));
+      }
+
+      console.error('Error submitting processing job:', error);
+
+      const message = error instanceof Error ? error.message : 'Failed to submit processing job';
+      const pendingIds = new Set(pendingFiles.map(file => file.id));
+      setFiles(prevFiles => prevFiles.map(file =>
+        pendingIds.has(file.id) ? { ...file, status: 'failed', error: message } : file
+      ));
+      setProcessing(jobControllers.current.size > 0);
+
+      return pendingFiles.map(file => ({ ...file, status: 'failed', error: message }));
+    }
+  }, [watchJob]);
+
+  // Resume watching jobs that were in flight when the page was reloaded
+  useEffect(() => {
+    const controllers = jobControllers.current;
+
+    loadActiveJobs().forEach(job => {
+      const jobFileIds = new Set(job.files.map(file => file.id));
+      setFiles(prevFiles => [
+        ...prevFiles.filter(file => !jobFileIds.has(file.id)),
+        ...job.files
+      ]);
+      watchJob(job.jobId, job.files);
+    });
+
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, [watchJob]);
+
+  /**
+   * Stop processing a single file
+   */
+  const cancelFile = useCallback(async (fileId: string): Promise<boolean> => {
+    const file = files.find(f => f.id === fileId);
+    if (!file || !isInFlight(file)) return false;
+
+    setFiles(prevFiles => prevFiles.map(f =>
+      f.id === fileId && isInFlight(f) ? { ...f, status: 'cancelled', error: undefined } : f
+    ));
+    releaseController(fileId);
+
+    // Job items are cancelled on the backend; the watcher picks up the new job state
+    if (file.jobId && jobControllers.current.has(file.jobId)) {
+      try {
+        await fileApi.cancelProcessJob(file.jobId, { input_keys: [file.originalKey] });
+      } catch (error) {
+        console.error('Error cancelling file:', error);
+        return false;
+      }
+    }
+
+    return true;
+  }, [files, releaseController]);
+
+  /**
+   * Stop processing every file that has not finished yet
+   */
+  const cancelAll = useCallback(async (): Promise<boolean> => {
+    localQueueController.current?.abort();
+    Array.from(fileControllers.current.keys()).forEach(releaseController);
+
+    setFiles(prevFiles => prevFiles.map(file =>
+      isInFlight(file) ? { ...file, status: 'cancelled', error: undefined } : file
+    ));
+
+    const results = await Promise.allSettled(
+      Array.from(jobControllers.current.keys()).map(jobId => fileApi.cancelProcessJob(jobId))
+    );
+
+    const failures = results.filter(result => result.status === 'rejected');
+    failures.forEach(result => console.error('Error cancelling job:', (result as PromiseRejectedResult).reason));
+
+    return failures.length === 0;
+  }, [releaseController]);
+
+  /**
+   * Ask the backend to hold a job's remaining items
+   */
+  const pauseJob = useCallback(async (jobId: string): Promise<boolean> => {
+    try {
+      await fileApi.pauseProcessJob(jobId);
+      setPausedJobs(prevJobs => prevJobs.includes(jobId) ? prevJobs : [...prevJobs, jobId]);
+      return true;
+    } catch (error) {
+      console.error('Error pausing job:', error);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Let a paused job continue
+   */
+  const resumeJob = useCallback(async (jobId: string): Promise<boolean> => {
+    try {
+      await fileApi.resumeProcessJob(jobId);
+      setPausedJobs(prevJobs => prevJobs.filter(id => id !== jobId));
+      return true;
+    } catch (error) {
+      console.error('Error resuming job:', error);
+      return false;
+    }
+  }, []);
+
   /**
    * Clear all files
    */
   const clearFiles = useCallback(() => {
+    localQueueController.current?.abort();
+    Array.from(fileControllers.current.keys()).forEach(releaseController);
+    Array.from(objectUrls.current.keys()).forEach(revokeObjectUrls);
+    localSources.current.clear();
     setFiles([]);
+  }, [releaseController, revokeObjectUrls]);
+
+  /**
+   * Record newly completed server-side sketches in the history, locally and on the backend
+   */
+  useEffect(() => {
+    const entries = files
+      .map(file => toHistoryEntry(file))
+      .filter((entry): entry is SketchHistoryEntry => entry !== null && !recordedIds.current.has(entry.id));
+    if (entries.length === 0) return;
+
+    entries.forEach(entry => recordedIds.current.add(entry.id));
+    saveHistoryEntries(entries);
+    entries.forEach(entry => {
+      historyApi.saveHistoryEntry(entry).catch(error => {
+        // The local copy is enough to find it again on this device
+        console.warn(`Error syncing ${entry.name} to history:`, error);
+      });
+    });
+  }, [files]);
+
+  /**
+   * Render an image with every method, without adding the results to the files
+   *
+   * Each result is reported as it finishes; keep the wanted ones with keepCandidates
+   * and release the others with discardCandidates.
+   */
+  const compareMethods = useCallback(async (
+    file: SketchFile,
+    config: SketchConfig | undefined,
+    options: { signal?: AbortSignal; onResult?: (candidate: SketchFile) => void } = {}
+  ): Promise<SketchFile[]> => {
+    const localSource = localSources.current.get(file.originalKey);
+    const createdAt = new Date().toISOString();
+
+    return Promise.all(Object.values(SketchMethod).map(async (method): Promise<SketchFile> => {
+      const candidate: SketchFile = {
+        id: uuidv4(),
+        originalKey: file.originalKey,
+        name: file.name,
+        size: file.size,
+        method,
+        config,
+        createdAt,
+        status: 'processing',
+        source: localSource ? 'local' : 'server',
+        contentHash: file.contentHash
+      };
+
+      let result: SketchFile;
+      try {
+        if (localSource) {
+          const { blob } = await renderSketchLocally(localSource, { method, config, signal: options.signal });
+          const sketchUrl = URL.createObjectURL(blob);
+          candidateUrls.current.set(candidate.id, sketchUrl);
+          result = { ...candidate, sketchUrl, status: 'completed' };
+        } else {
+          const { data } = await fileApi.processImage({
+            input_key: file.originalKey,
+            method,
+            config
+          }, options.signal);
+          if (!data.success) {
+            throw new Error(data.error || 'Failed to process image');
+          }
+          result = { ...candidate, sketchKey: data.output_key, sketchUrl: data.download_url, status: 'completed' };
+        }
+      } catch (error) {
+        result = options.signal?.aborted
+          ? { ...candidate, status: 'cancelled' }
+          : { ...candidate, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error occurred' };
+      }
+
+      options.onResult?.(result);
+      return result;
+    }));
   }, []);
 
   /**
-   * Remove a file by ID
+   * Add comparison results to the files, right after the file they were compared for
    */
-  const removeFile = useCallback((fileId: string) => {
-    setFiles(prevFiles => prevFiles.filter(file => file.id !== fileId));
+  const keepCandidates = useCallback((sourceId: string, candidates: SketchFile[]) => {
+    const kept = candidates.filter(candidate => candidate.status === 'completed').map(candidate => {
+      const sketchUrl = candidateUrls.current.get(candidate.id);
+      candidateUrls.current.delete(candidate.id);
+      if (!sketchUrl) return candidate;
+
+      // Local results get their own original, the compared file's URL goes when it is removed
+      const source = localSources.current.get(candidate.originalKey);
+      const originalUrl = source ? URL.createObjectURL(source) : undefined;
+      objectUrls.current.set(candidate.id, originalUrl ? [sketchUrl, originalUrl] : [sketchUrl]);
+      return { ...candidate, originalUrl };
+    });
+    if (kept.length === 0) return;
+
+    setFiles(prevFiles => {
+      const index = prevFiles.findIndex(file => file.id === sourceId);
+      if (index === -1) return [...prevFiles, ...kept];
+      return [...prevFiles.slice(0, index + 1), ...kept, ...prevFiles.slice(index + 1)];
+    });
+    rememberSketches(kept);
+  }, []);
+
+  /**
+   * Release comparison results that were not kept
+   */
+  const discardCandidates = useCallback((candidates: SketchFile[]) => {
+    candidates.forEach(candidate => {
+      const url = candidateUrls.current.get(candidate.id);
+      if (url) URL.revokeObjectURL(url);
+      candidateUrls.current.delete(candidate.id);
+    });
+  }, []);
+
+  /**
+   * Get a URL for a file's original image, asking for a download URL the first time
+   */
+  const resolveOriginalUrl = useCallback(async (file: SketchFile) => {
+    if (file.originalUrl) return resolvePresignedUrl(file.originalKey, file.originalUrl);
+
+    const url = await refreshPresignedUrl(file.originalKey);
+    setFiles(prevFiles => prevFiles.map(f =>
+      f.id === file.id ? { ...f, originalUrl: url } : f
+    ));
+    return url;
   }, []);
 
   return {
     processImage,
+    processLocalFiles,
     batchProcessImages,
+    processBatchJob,
+    cancelFile,
+    cancelAll,
+    pauseJob,
+    resumeJob,
     clearFiles,
     removeFile,
+    resolveOriginalUrl,
+    reprocessFile,
+    restoreVersion,
+    deleteVersion,
+    compareMethods,
+    keepCandidates,
+    discardCandidates,
     processing,
     progress,
+    channel,
+    pausedJobs,
     files
   };
 };
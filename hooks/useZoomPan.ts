@@ -0,0 +1,235 @@
+import { useState, useCallback, useEffect, useRef, PointerEvent } from 'react';
+
+export interface ZoomPanView {
+  // 1 shows the image at its actual pixels
+  zoom: number;
+  // Image point shown in the middle of the viewport
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const MAX_ZOOM = 8;
+
+// Wheel delta that doubles or halves the zoom
+const WHEEL_ZOOM_STEP = 500;
+
+const getFitZoom = (content: Size, viewport: Size) =>
+  Math.min(viewport.width / content.width, viewport.height / content.height);
+
+/**
+ * Keep the zoom in range and the image covering as much of the viewport as it can
+ */
+const clampView = (view: ZoomPanView, content: Size, viewport: Size): ZoomPanView => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(Math.min(1, getFitZoom(content, viewport)), view.zoom));
+
+  const clampAxis = (center: number, contentLength: number, viewportLength: number) => {
+    const half = viewportLength / 2 / zoom;
+    // Smaller than the viewport, so centred
+    if (half * 2 >= contentLength) return contentLength / 2;
+    return Math.min(contentLength - half, Math.max(half, center));
+  };
+
+  return {
+    zoom,
+    x: clampAxis(view.x, content.width, viewport.width),
+    y: clampAxis(view.y, content.height, viewport.height),
+  };
+};
+
+/**
+ * Zoom and pan state for one or more viewports showing the same image
+ *
+ * Viewports showing the image side by side share the view, so they stay in
+ * step while zooming and panning.
+ */
+export const useZoomPan = () => {
+  const [content, setContent] = useState<Size | null>(null);
+  const [viewport, setViewport] = useState<Size | null>(null);
+  const [view, setView] = useState<ZoomPanView | null>(null);
+
+  // Latest sizes for the event handlers, which are bound once per viewport
+  const sizes = useRef<{ content: Size | null; viewport: Size | null }>({ content: null, viewport: null });
+  sizes.current = { content, viewport };
+
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+
+  const fitZoom = content && viewport ? getFitZoom(content, viewport) : 1;
+
+  /**
+   * Apply a change to the view, clamped to the current sizes
+   */
+  const updateView = useCallback((update: (view: ZoomPanView) => ZoomPanView) => {
+    const { content, viewport } = sizes.current;
+    if (!content || !viewport) return;
+    setView(current => current && clampView(update(current), content, viewport));
+  }, []);
+
+  /**
+   * Zoom around a point given relative to the viewport centre, the centre itself by default
+   */
+  const zoomTo = useCallback((zoom: number, focusX = 0, focusY = 0) => {
+    updateView(current => {
+      const nextZoom = Math.min(MAX_ZOOM, zoom);
+      // The image point under the focus stays where it is
+      const pointX = current.x + focusX / current.zoom;
+      const pointY = current.y + focusY / current.zoom;
+      return { zoom: nextZoom, x: pointX - focusX / nextZoom, y: pointY - focusY / nextZoom };
+    });
+  }, [updateView]);
+
+  const zoomBy = useCallback((factor: number, focusX = 0, focusY = 0) => {
+    updateView(current => {
+      const nextZoom = Math.min(MAX_ZOOM, current.zoom * factor);
+      const pointX = current.x + focusX / current.zoom;
+      const pointY = current.y + focusY / current.zoom;
+      return { zoom: nextZoom, x: pointX - focusX / nextZoom, y: pointY - focusY / nextZoom };
+    });
+  }, [updateView]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    updateView(current => ({ ...current, x: current.x - dx / current.zoom, y: current.y - dy / current.zoom }));
+  }, [updateView]);
+
+  /**
+   * Centre the view on an image point
+   */
+  const centerOn = useCallback((x: number, y: number) => {
+    updateView(current => ({ ...current, x, y }));
+  }, [updateView]);
+
+  const fit = useCallback(() => {
+    const { content, viewport } = sizes.current;
+    if (!content || !viewport) return;
+    setView(clampView(
+      { zoom: getFitZoom(content, viewport), x: content.width / 2, y: content.height / 2 },
+      content,
+      viewport
+    ));
+  }, []);
+
+  const actualSize = useCallback(() => zoomTo(1), [zoomTo]);
+
+  // A new image starts out fitted
+  useEffect(() => {
+    if (content && viewport && !view) fit();
+  }, [content, viewport, view, fit]);
+
+  // Keep the view valid when the viewport is resized
+  useEffect(() => {
+    if (content && viewport) updateView(current => current);
+  }, [content, viewport, updateView]);
+
+  /**
+   * Report the natural size of the image, from its load event
+   */
+  const setContentSize = useCallback((size: Size) => {
+    const current = sizes.current.content;
+    // Layers remounting on a mode switch report the same size and keep the view
+    if (current && current.width === size.width && current.height === size.height) return;
+    setContent(size);
+    setView(null);
+  }, []);
+
+  /**
+   * Ref callback for a viewport: measures it and handles wheel zoom
+   *
+   * The wheel listener is added by hand because React's is passive and cannot
+   * stop the page from scrolling.
+   */
+  const viewportRef = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > 0 && height > 0) setViewport({ width, height });
+    });
+    observer.observe(element);
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      // Trackpad pinches arrive as wheel events with ctrlKey and small deltas
+      const delta = event.deltaMode === 1 ? event.deltaY * 16 : event.deltaY;
+      zoomBy(
+        Math.pow(2, -delta / (event.ctrlKey ? WHEEL_ZOOM_STEP / 5 : WHEEL_ZOOM_STEP)),
+        event.clientX - rect.left - rect.width / 2,
+        event.clientY - rect.top - rect.height / 2
+      );
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => {
+      observer.disconnect();
+      element.removeEventListener('wheel', handleWheel);
+    };
+  }, [zoomBy]);
+
+  /**
+   * Drag to pan with one pointer, pinch to zoom with two
+   */
+  const handlePointerDown = useCallback((event: PointerEvent<HTMLElement>) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+  }, []);
+
+  const handlePointerMove = useCallback((event: PointerEvent<HTMLElement>) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) return;
+
+    const active = Array.from(pointers.current.entries());
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (active.length === 1) {
+      panBy(event.clientX - previous.x, event.clientY - previous.y);
+      return;
+    }
+
+    // Pinch: the distance between the first two pointers sets the zoom, their midpoint moves the image
+    const [first, second] = active.map(([id, point]) =>
+      id === event.pointerId ? { x: event.clientX, y: event.clientY } : point
+    );
+    const [firstBefore, secondBefore] = active.map(([, point]) => point);
+    const distanceBefore = Math.hypot(secondBefore.x - firstBefore.x, secondBefore.y - firstBefore.y);
+    const distance = Math.hypot(second.x - first.x, second.y - first.y);
+    if (distanceBefore === 0) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const midX = (first.x + second.x) / 2;
+    const midY = (first.y + second.y) / 2;
+    panBy(midX - (firstBefore.x + secondBefore.x) / 2, midY - (firstBefore.y + secondBefore.y) / 2);
+    zoomBy(distance / distanceBefore, midX - rect.left - rect.width / 2, midY - rect.top - rect.height / 2);
+  }, [panBy, zoomBy]);
+
+  const handlePointerUp = useCallback((event: PointerEvent<HTMLElement>) => {
+    pointers.current.delete(event.pointerId);
+  }, []);
+
+  return {
+    view,
+    content,
+    viewport,
+    fitZoom,
+    setContentSize,
+    zoomTo,
+    zoomBy,
+    panBy,
+    centerOn,
+    fit,
+    actualSize,
+    viewportRef,
+    viewportHandlers: {
+      onPointerDown: handlePointerDown,
+      onPointerMove: handlePointerMove,
+      onPointerUp: handlePointerUp,
+      onPointerCancel: handlePointerUp,
+    },
+  };
+};
+
+export type ZoomPan = ReturnType<typeof useZoomPan>;
@@ -0,0 +1,80 @@
+// Messages exchanged with workers/hash.worker.ts
+export interface HashWorkerRequest {
+  id: number;
+  source: Blob;
+}
+
+export type HashWorkerResponse =
+  | { id: number; success: true; hash: string }
+  | { id: number; success: false; error: string };
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, {
+  resolve: (hash: string) => void;
+  reject: (error: Error) => void;
+}>();
+
+// The same File object is hashed once, however often it is added or uploaded
+const hashes = new WeakMap<Blob, Promise<string>>();
+
+/**
+ * Check whether files can be hashed off the main thread
+ */
+export const isFileHashingSupported = () =>
+  typeof window !== 'undefined' && typeof Worker !== 'undefined';
+
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/hash.worker.ts', import.meta.url));
+
+  worker.onmessage = (event: MessageEvent<HashWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    pending.delete(response.id);
+    if (response.success) {
+      request.resolve(response.hash);
+    } else {
+      request.reject(new Error(response.error));
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error('Hash worker error:', event.message);
+    const error = new Error(event.message || 'Hash worker crashed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+};
+
+/**
+ * SHA-256 of a file's contents as lowercase hex, computed in a worker
+ */
+export const hashFile = (source: Blob): Promise<string> => {
+  const cached = hashes.get(source);
+  if (cached) return cached;
+
+  if (!isFileHashingSupported()) {
+    return Promise.reject(new Error('File hashing is not supported in this browser'));
+  }
+
+  const id = nextRequestId++;
+  const promise = new Promise<string>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const request: HashWorkerRequest = { id, source };
+    getWorker().postMessage(request);
+  });
+
+  hashes.set(source, promise);
+  // A failed hash may succeed on a later attempt
+  promise.catch(() => hashes.delete(source));
+
+  return promise;
+};
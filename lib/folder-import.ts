@@ -0,0 +1,146 @@
+/**
+ * Ingestion of dropped folders and ZIP archives
+ *
+ * Files found this way remember their path relative to the dropped folder or
+ * archive, so a photo shoot keeps its structure once uploaded.
+ */
+
+import type { DropEvent } from 'react-dropzone';
+import { extractZipEntry, readZipEntries } from '@/lib/zip';
+
+// Relative paths of files that came out of a folder or an archive
+const relativePaths = new WeakMap<File, string>();
+
+export const getRelativePath = (file: File) => relativePaths.get(file);
+
+// Types for archive entries, which carry no type of their own
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  hif: 'image/heif',
+  dng: 'image/x-adobe-dng',
+};
+
+const getTypeFromName = (name: string) =>
+  EXTENSION_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? '';
+
+// macOS resource forks, Thumbs.db and other hidden files are never wanted
+const isHiddenPath = (path: string) =>
+  path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX' || segment === 'Thumbs.db');
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+/**
+ * Collect every file below an entry, recursing into directories
+ */
+const walkEntry = async (entry: FileSystemEntry, parentPath: string): Promise<File[]> => {
+  const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+  if (isHiddenPath(entry.name)) return [];
+
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    // Only files inside a folder have a path worth keeping
+    if (parentPath) relativePaths.set(file, path);
+    return [file];
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns at most 100 entries per call, so it is called until it comes back empty
+    for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+      children.push(...batch);
+    }
+
+    const nested = await Promise.all(children.map(child => walkEntry(child, path)));
+    return nested.flat();
+  }
+
+  return [];
+};
+
+/**
+ * Files for react-dropzone, with dropped folders expanded
+ *
+ * Drag events only report what is being dragged; the folders are read once
+ * the items are dropped.
+ */
+export const getFilesFromDropEvent = async (event: DropEvent): Promise<Array<File | DataTransferItem>> => {
+  if (Array.isArray(event)) {
+    // File system access handles from showOpenFilePicker
+    return Promise.all(event.map(handle => (handle as FileSystemFileHandle).getFile()));
+  }
+
+  if ('dataTransfer' in event && event.dataTransfer) {
+    const items = Array.from(event.dataTransfer.items).filter(item => item.kind === 'file');
+    if (event.type !== 'drop') return items;
+
+    // Entries have to be taken synchronously, the data transfer is emptied after the event
+    const entries = items.map(item => item.webkitGetAsEntry());
+    const fallbackFiles = items.map(item => item.getAsFile());
+
+    const nested = await Promise.all(entries.map((entry, index) => {
+      if (entry) return walkEntry(entry, '');
+      const file = fallbackFiles[index];
+      return Promise.resolve(file ? [file] : []);
+    }));
+    return nested.flat();
+  }
+
+  const input = event.target as HTMLInputElement | null;
+  return Array.from(input?.files ?? []).map(file => {
+    // Folders picked through the file input carry the path themselves
+    if (file.webkitRelativePath) relativePaths.set(file, file.webkitRelativePath);
+    return file;
+  });
+};
+
+/**
+ * Unpack the image entries of a ZIP archive, one at a time
+ */
+export const unpackZipFile = async (
+  archive: File,
+  isWanted: (file: File) => boolean,
+  onEntry?: (current: number, total: number, name: string) => void
+): Promise<File[]> => {
+  const baseName = archive.name.replace(/\.zip$/i, '');
+  const parentPath = getRelativePath(archive)?.replace(/[^/]*$/, '') ?? '';
+
+  const entries = (await readZipEntries(archive)).filter(entry =>
+    !isHiddenPath(entry.name) && getTypeFromName(entry.name) !== ''
+  );
+
+  const files: File[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const name = entry.name.split('/').pop() as string;
+    onEntry?.(index + 1, entries.length, name);
+
+    const type = getTypeFromName(name);
+    const candidate = new File([], name, { type });
+    if (!isWanted(candidate)) continue;
+
+    try {
+      const file = new File([await extractZipEntry(archive, entry, type)], name, {
+        type,
+        lastModified: archive.lastModified,
+      });
+      relativePaths.set(file, `${parentPath}${baseName}/${entry.name}`);
+      files.push(file);
+    } catch (error) {
+      console.warn(`Skipping ${entry.name} in ${archive.name}:`, error);
+    }
+  }
+
+  return files;
+};
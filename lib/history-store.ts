@@ -0,0 +1,180 @@
+import { SketchFile, SketchHistoryEntry, SketchMethod } from '@/types';
+
+// Separate from the upload database, so neither has to migrate the other
+const DB_NAME = 'imagetosketch-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'sketches';
+// Entries of one batch can share a completion time, so the id breaks ties
+const COMPLETED_INDEX = 'completedAt-id';
+
+export interface HistoryQuery {
+  search?: string;
+  methods?: SketchMethod[];
+  // Only entries listed after this one, for the next page
+  after?: HistoryCursor;
+  limit?: number;
+}
+
+// Position in the newest-first order
+export interface HistoryCursor {
+  completedAt: string;
+  id: string;
+}
+
+export interface HistoryPage {
+  items: SketchHistoryEntry[];
+  hasMore: boolean;
+}
+
+export const HISTORY_PAGE_SIZE = 30;
+
+// Plain code unit order, the way IndexedDB compares keys
+const compareStrings = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Newest first, the order pages are listed in
+ */
+export const compareHistoryEntries = (a: SketchHistoryEntry, b: SketchHistoryEntry) =>
+  compareStrings(b.completedAt, a.completedAt) || compareStrings(b.id, a.id);
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const isIndexedDbAvailable = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex(COMPLETED_INDEX, ['completedAt', 'id']);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to try again, e.g. after the user leaves private browsing
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+/**
+ * Turn a completed server-side sketch into a history entry
+ */
+export const toHistoryEntry = (file: SketchFile, completedAt: string = new Date().toISOString()): SketchHistoryEntry | null => {
+  if (file.status !== 'completed' || !file.sketchKey || file.source === 'local') return null;
+
+  return {
+    // Every version of a reprocessed file is an entry of its own
+    id: file.versionId ?? file.id,
+    name: file.name,
+    size: file.size,
+    method: file.method,
+    config: file.config ?? {},
+    originalKey: file.originalKey,
+    sketchKey: file.sketchKey,
+    contentHash: file.contentHash,
+    jobId: file.jobId,
+    createdAt: file.createdAt ?? completedAt,
+    completedAt,
+  };
+};
+
+/**
+ * Check an entry against the search text and method filter
+ */
+export const matchesHistoryQuery = (entry: SketchHistoryEntry, query: HistoryQuery) => {
+  const search = query.search?.trim().toLowerCase();
+  if (search && !entry.name.toLowerCase().includes(search)) return false;
+  if (query.methods?.length && !query.methods.includes(entry.method)) return false;
+  return true;
+};
+
+/**
+ * Save entries; failures only cost the local copy
+ */
+export const saveHistoryEntries = async (entries: SketchHistoryEntry[]) => {
+  if (!isIndexedDbAvailable() || entries.length === 0) return;
+
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      entries.forEach(entry => store.put(entry));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Error saving sketch history:', error);
+  }
+};
+
+/**
+ * List entries newest first, one page at a time
+ */
+export const listHistoryEntries = async (query: HistoryQuery = {}): Promise<HistoryPage> => {
+  if (!isIndexedDbAvailable()) return { items: [], hasMore: false };
+
+  const limit = query.limit ?? HISTORY_PAGE_SIZE;
+
+  try {
+    const db = await openDatabase();
+    return await new Promise<HistoryPage>((resolve, reject) => {
+      const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(COMPLETED_INDEX);
+      const range = query.after
+        ? IDBKeyRange.upperBound([query.after.completedAt, query.after.id], true)
+        : undefined;
+      const request = index.openCursor(range, 'prev');
+      const items: SketchHistoryEntry[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ items, hasMore: false });
+          return;
+        }
+
+        const entry = cursor.value as SketchHistoryEntry;
+        if (matchesHistoryQuery(entry, query)) {
+          // One entry past the page tells whether there is another page
+          if (items.length === limit) {
+            resolve({ items, hasMore: true });
+            return;
+          }
+          items.push(entry);
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Error listing sketch history:', error);
+    return { items: [], hasMore: false };
+  }
+};
+
+/**
+ * Remove an entry from the local history
+ */
+export const deleteHistoryEntry = async (id: string) => {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Error deleting sketch history entry:', error);
+  }
+};
@@ -0,0 +1,255 @@
+/**
+ * Decoding for camera formats browsers cannot display on their own
+ *
+ * HEIC/HEIF is decoded with libheif (through heic2any). For DNG the largest
+ * embedded JPEG preview is used, which every camera and phone writes at or
+ * near full resolution.
+ */
+
+export interface DecodedImage {
+  file: File;
+  originalName: string;
+  width: number;
+  height: number;
+}
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+const HEIC_EXTENSIONS = /\.(heic|heif|hif)$/i;
+const DNG_TYPES = ['image/x-adobe-dng', 'image/dng'];
+const DNG_EXTENSIONS = /\.dng$/i;
+
+// Browsers often report an empty type for these, so the extension counts as well
+export const isHeicFile = (file: File) => HEIC_TYPES.includes(file.type) || HEIC_EXTENSIONS.test(file.name);
+
+export const isDngFile = (file: File) => DNG_TYPES.includes(file.type) || DNG_EXTENSIONS.test(file.name);
+
+export const needsDecoding = (file: File) => isHeicFile(file) || isDngFile(file);
+
+// Accept map entries for the formats decoded here, for FileUpload's accept prop
+export const DECODABLE_IMAGE_ACCEPT: Record<string, string[]> = {
+  'image/heic': ['.heic'],
+  'image/heif': ['.heif', '.hif'],
+  'image/x-adobe-dng': ['.dng'],
+};
+
+const replaceExtension = (name: string, extension: string) =>
+  `${name.replace(/\.[^./]+$/, '')}.${extension}`;
+
+/**
+ * Decode the primary image of a HEIC/HEIF file to JPEG
+ */
+const decodeHeic = async (file: File, quality: number): Promise<Blob> => {
+  // heic2any touches window when it loads, so it is only imported in the browser
+  const { default: heic2any } = await import('heic2any');
+  const result = await heic2any({ blob: file, toType: 'image/jpeg', quality });
+
+  // Burst and live photos hold several images; the first one is the main photo
+  return Array.isArray(result) ? result[0] : result;
+};
+
+interface TiffEntry {
+  type: number;
+  count: number;
+  valueOffset: number;
+}
+
+interface JpegCandidate {
+  offset: number;
+  length: number;
+  pixels: number;
+}
+
+// Byte sizes of the TIFF field types used below
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 3: 2, 4: 4, 7: 1, 13: 4 };
+
+const TAG_NEW_SUBFILE_TYPE = 254;
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_COMPRESSION = 259;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_ORIENTATION = 274;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_SUB_IFDS = 330;
+const TAG_JPEG_OFFSET = 513;
+const TAG_JPEG_LENGTH = 514;
+
+/**
+ * Find the JPEG previews embedded in a DNG and the orientation of the main image
+ */
+const readDngPreviews = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const byteOrder = view.getUint16(0);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    throw new Error('Not a valid DNG file');
+  }
+  const little = byteOrder === 0x4949;
+
+  const readEntry = (offset: number): TiffEntry => {
+    const type = view.getUint16(offset + 2, little);
+    const count = view.getUint32(offset + 4, little);
+    const size = (TIFF_TYPE_SIZES[type] ?? 4) * count;
+    // Values of four bytes or less are stored inline
+    return { type, count, valueOffset: size <= 4 ? offset + 8 : view.getUint32(offset + 8, little) };
+  };
+
+  const readValues = (entry: TiffEntry): number[] =>
+    Array.from({ length: entry.count }, (_, index) =>
+      entry.type === 3
+        ? view.getUint16(entry.valueOffset + index * 2, little)
+        : entry.type === 1 || entry.type === 7
+          ? view.getUint8(entry.valueOffset + index)
+          : view.getUint32(entry.valueOffset + index * 4, little)
+    );
+
+  const candidates: JpegCandidate[] = [];
+  const visited = new Set<number>();
+  let orientation = 1;
+
+  const readIfd = (ifdOffset: number, isRoot: boolean): number => {
+    if (!ifdOffset || visited.has(ifdOffset) || ifdOffset + 2 > view.byteLength) return 0;
+    visited.add(ifdOffset);
+
+    const entryCount = view.getUint16(ifdOffset, little);
+    const tags = new Map<number, TiffEntry>();
+    for (let index = 0; index < entryCount; index++) {
+      const entryOffset = ifdOffset + 2 + index * 12;
+      tags.set(view.getUint16(entryOffset, little), readEntry(entryOffset));
+    }
+
+    const value = (tag: number) => {
+      const entry = tags.get(tag);
+      return entry ? readValues(entry) : undefined;
+    };
+
+    if (isRoot && tags.has(TAG_ORIENTATION)) {
+      orientation = value(TAG_ORIENTATION)?.[0] ?? 1;
+    }
+
+    const width = value(TAG_IMAGE_WIDTH)?.[0] ?? 0;
+    const height = value(TAG_IMAGE_LENGTH)?.[0] ?? 0;
+    const jpegOffset = value(TAG_JPEG_OFFSET)?.[0];
+    const jpegLength = value(TAG_JPEG_LENGTH)?.[0];
+
+    if (jpegOffset && jpegLength) {
+      candidates.push({ offset: jpegOffset, length: jpegLength, pixels: width * height });
+    } else if (value(TAG_NEW_SUBFILE_TYPE)?.[0] === 1 && [6, 7].includes(value(TAG_COMPRESSION)?.[0] ?? 0)) {
+      // A reduced-resolution image stored as a single JPEG strip
+      const offsets = value(TAG_STRIP_OFFSETS);
+      const counts = value(TAG_STRIP_BYTE_COUNTS);
+      if (offsets?.length === 1 && counts?.length === 1) {
+        candidates.push({ offset: offsets[0], length: counts[0], pixels: width * height });
+      }
+    }
+
+    value(TAG_SUB_IFDS)?.forEach(subIfd => readIfd(subIfd, false));
+
+    return view.getUint32(ifdOffset + 2 + entryCount * 12, little);
+  };
+
+  let next = view.getUint32(4, little);
+  let root = true;
+  while (next) {
+    next = readIfd(next, root);
+    root = false;
+  }
+
+  // Largest preview first; candidates must at least start with a JPEG marker
+  const previews = candidates
+    .filter(({ offset, length }) =>
+      offset + length <= view.byteLength && view.getUint16(offset) === 0xffd8
+    )
+    .sort((a, b) => b.pixels - a.pixels || b.length - a.length);
+
+  return { previews, orientation };
+};
+
+/**
+ * Draw a bitmap with a TIFF/EXIF orientation applied and encode it as JPEG
+ */
+const encodeOriented = async (bitmap: ImageBitmap, orientation: number, quality: number) => {
+  const swap = orientation >= 5 && orientation <= 8;
+  const width = swap ? bitmap.height : bitmap.width;
+  const height = swap ? bitmap.width : bitmap.height;
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('2D canvas is not available in this browser');
+  }
+
+  // Standard transforms for orientations 2 to 8
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, width, 0],
+    3: [-1, 0, 0, -1, width, height],
+    4: [1, 0, 0, -1, 0, height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, width, 0],
+    7: [0, -1, -1, 0, width, height],
+    8: [0, -1, 1, 0, 0, height],
+  };
+  const transform = transforms[orientation];
+  if (transform) {
+    context.setTransform(...transform);
+  }
+  context.drawImage(bitmap, 0, 0);
+
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  return { blob, width, height };
+};
+
+/**
+ * Decode the embedded preview of a DNG file to JPEG
+ */
+const decodeDng = async (file: File, quality: number) => {
+  const buffer = await file.arrayBuffer();
+  const { previews, orientation } = readDngPreviews(buffer);
+
+  for (const preview of previews) {
+    const jpeg = new Blob([buffer.slice(preview.offset, preview.offset + preview.length)], { type: 'image/jpeg' });
+
+    let bitmap: ImageBitmap;
+    try {
+      // Lossless JPEG previews exist too, and browsers cannot decode those
+      bitmap = await createImageBitmap(jpeg, { imageOrientation: 'none' });
+    } catch {
+      continue;
+    }
+
+    try {
+      return await encodeOriented(bitmap, orientation, quality);
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  throw new Error('This DNG file has no preview the browser can decode');
+};
+
+/**
+ * Convert a HEIC/HEIF or DNG file into a JPEG the rest of the pipeline can read
+ */
+export const decodeImage = async (file: File, quality: number = 0.92): Promise<DecodedImage> => {
+  let decoded: { blob: Blob; width: number; height: number };
+
+  if (isHeicFile(file)) {
+    const blob = await decodeHeic(file, quality);
+    const bitmap = await createImageBitmap(blob);
+    decoded = { blob, width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+  } else if (isDngFile(file)) {
+    decoded = await decodeDng(file, quality);
+  } else {
+    throw new Error(`${file.name} does not need decoding`);
+  }
+
+  const { blob, width, height } = decoded;
+  return {
+    file: new File([blob], replaceExtension(file.name, 'jpg'), {
+      type: 'image/jpeg',
+      lastModified: file.lastModified,
+    }),
+    originalName: file.name,
+    width,
+    height,
+  };
+};
@@ -0,0 +1,134 @@
+/**
+ * Image sources besides the file picker: clipboard, remote URLs and the camera
+ */
+
+import { fileApi } from '@/services/file.api';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+};
+
+// Timestamp for generated names, e.g. 2024-05-01-13-45-10
+const timestamp = () => new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+
+const withExtension = (baseName: string, type: string) =>
+  `${baseName}.${EXTENSIONS[type] ?? 'png'}`;
+
+/**
+ * Image files in a paste event, named so they can be told apart in the file list
+ */
+export const getClipboardImages = (data: DataTransfer | null): File[] => {
+  if (!data) return [];
+
+  return Array.from(data.items)
+    .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null)
+    .map((file, index, files) => {
+      // Screenshots arrive as "image.png", copied files keep their own name
+      if (file.name && file.name !== 'image.png') return file;
+
+      const suffix = files.length > 1 ? `-${index + 1}` : '';
+      return new File([file], withExtension(`pasted-${timestamp()}${suffix}`, file.type), {
+        type: file.type,
+        lastModified: Date.now(),
+      });
+    });
+};
+
+/**
+ * Check that a string is an http(s) URL the backend can fetch
+ */
+export const isImportableUrl = (value: string) => {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * File name for a fetched image, from the URL path or a generated one
+ */
+const getRemoteFileName = (url: string, type: string) => {
+  const lastSegment = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+  const baseName = lastSegment.replace(/\.[^./]+$/, '').replace(/[^\w.-]+/g, '-');
+  return withExtension(baseName || `image-${timestamp()}`, type);
+};
+
+/**
+ * Download an image through the backend proxy, browsers block most cross-origin fetches
+ */
+export const fetchImageFromUrl = async (url: string, signal?: AbortSignal): Promise<File> => {
+  const trimmed = url.trim();
+  if (!isImportableUrl(trimmed)) {
+    throw new Error('Enter a valid http or https URL');
+  }
+
+  try {
+    const { data } = await fileApi.fetchRemoteImage({ url: trimmed }, signal);
+    if (!data.type.startsWith('image/')) {
+      throw new Error('The URL does not point to an image');
+    }
+
+    return new File([data], getRemoteFileName(trimmed, data.type), {
+      type: data.type,
+      lastModified: Date.now(),
+    });
+  } catch (error) {
+    if (error instanceof Error) throw error;
+
+    // The API client rejects with the response body, a blob here, so the backend's message is read out of it
+    let detail = '';
+    if (error instanceof Blob) {
+      const body = await error.text().catch(() => '');
+      try {
+        detail = JSON.parse(body).detail ?? '';
+      } catch {
+        // Not JSON, fall back to a generic message
+      }
+    }
+    throw new Error(detail || 'Could not fetch the image');
+  }
+};
+
+export const isCameraSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Take a still from a playing video element
+ */
+export const captureVideoFrame = async (
+  video: HTMLVideoElement,
+  type: string = 'image/jpeg',
+  quality: number = 0.92
+): Promise<File> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('2D canvas is not available in this browser');
+  }
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  if (!blob) {
+    throw new Error('Could not capture a photo from the camera');
+  }
+
+  return new File([blob], withExtension(`camera-${timestamp()}`, blob.type), {
+    type: blob.type,
+    lastModified: Date.now(),
+  });
+};
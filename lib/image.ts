@@ -0,0 +1,187 @@
+/**
+ * Browser image helpers shared by the preview, upload and export code
+ */
+
+export interface ScaledImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  // Ratio between the scaled and the original size (1 when nothing changed)
+  scale: number;
+}
+
+/**
+ * Downscale an image so its long edge fits maxDimension
+ *
+ * A background colour is drawn behind the image first, for formats without alpha.
+ */
+export const downscaleImage = async (
+  source: Blob,
+  maxDimension: number,
+  type: string = 'image/png',
+  quality?: number,
+  background?: string
+): Promise<ScaledImage> => {
+  const bitmap = await createImageBitmap(source);
+
+  try {
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    const scale = longEdge > maxDimension ? maxDimension / longEdge : 1;
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('2D canvas is not available in this browser');
+    }
+
+    if (background) {
+      context.fillStyle = background;
+      context.fillRect(0, 0, width, height);
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await canvas.convertToBlob({ type, quality });
+    return { blob, width, height, scale };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export type NormalizedImageFormat = 'image/webp' | 'image/jpeg';
+
+export interface ImageNormalizationOptions {
+  // Long edge of the re-encoded image in pixels
+  maxDimension?: number;
+  format?: NormalizedImageFormat;
+  quality?: number;
+}
+
+export interface NormalizedImage {
+  file: File;
+  originalSize: number;
+  width: number;
+  height: number;
+}
+
+// Still images the canvas can decode; GIFs are left alone so animations survive
+const NORMALIZABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/bmp'];
+
+export const isNormalizableImage = (file: File) => NORMALIZABLE_TYPES.includes(file.type);
+
+const FORMAT_EXTENSIONS: Record<NormalizedImageFormat, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+};
+
+// Metadata sits near the start of the file in every format checked below
+const METADATA_SCAN_BYTES = 256 * 1024;
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * Whether a file may carry metadata, EXIF orientation included
+ *
+ * Formats that are not parsed here are assumed to carry some.
+ */
+const mayHaveMetadata = async (file: File) => {
+  const bytes = new Uint8Array(await file.slice(0, METADATA_SCAN_BYTES).arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // JPEG: APP1 holds EXIF and XMP, APP13 holds IPTC
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xe1 || marker === 0xed) return true;
+      // Start of scan, the image data follows
+      if (marker === 0xda) return false;
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return offset + 4 > bytes.length;
+  }
+
+  // PNG: EXIF and text chunks come before the image data
+  if (readAscii(bytes, 1, 3) === 'PNG') {
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const type = readAscii(bytes, offset + 4, 4);
+      if (['eXIf', 'tEXt', 'iTXt', 'zTXt'].includes(type)) return true;
+      if (type === 'IDAT') return false;
+      offset += 12 + view.getUint32(offset);
+    }
+    return true;
+  }
+
+  // WebP: the extended header flags EXIF and XMP chunks
+  if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+    return readAscii(bytes, 12, 4) === 'VP8X' && (bytes[20] & 0x0c) !== 0;
+  }
+
+  return true;
+};
+
+/**
+ * Re-encode a photo upright, without metadata and no larger than maxDimension
+ *
+ * Drawing to a canvas applies the EXIF orientation and drops every metadata
+ * block, GPS position included, since only the pixels are encoded again. A
+ * file without metadata that needs no resizing is kept when the re-encode
+ * would not be smaller.
+ */
+export const normalizeImage = async (
+  file: File,
+  options: ImageNormalizationOptions = {}
+): Promise<NormalizedImage> => {
+  const { maxDimension = 4096, format = 'image/webp', quality = 0.9 } = options;
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    const scale = longEdge > maxDimension ? maxDimension / longEdge : 1;
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('2D canvas is not available in this browser');
+    }
+
+    // JPEG has no alpha channel, so transparent areas become white instead of black
+    if (format === 'image/jpeg') {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    let blob = await canvas.convertToBlob({ type: format, quality });
+    // Browsers without a WebP encoder silently return PNG
+    if (blob.type !== format) {
+      context.globalCompositeOperation = 'destination-over';
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+      blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+    }
+
+    const outputType = blob.type as NormalizedImageFormat;
+    const baseName = file.name.replace(/\.[^./]+$/, '');
+    const normalized = new File([blob], `${baseName}.${FORMAT_EXTENSIONS[outputType]}`, {
+      type: outputType,
+      lastModified: file.lastModified,
+    });
+
+    if (scale === 1 && normalized.size >= file.size && !(await mayHaveMetadata(file))) {
+      return { file, originalSize: file.size, width, height };
+    }
+
+    return { file: normalized, originalSize: file.size, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
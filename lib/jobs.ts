@@ -0,0 +1,174 @@
+import { fileApi, ProcessJobResponse, ProcessJobStatus } from '@/services/file.api';
+import { SketchFile } from '@/types';
+
+const STORAGE_KEY = 'imagetosketch:active-jobs';
+
+// A submitted job whose results have not all arrived yet
+export interface ActiveJob {
+  jobId: string;
+  files: SketchFile[];
+  submittedAt: string;
+}
+
+const FINISHED_JOB_STATUSES: ProcessJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export const isJobFinished = (status: ProcessJobStatus) => FINISHED_JOB_STATUSES.includes(status);
+
+/**
+ * Read jobs that were still running when the page was last open
+ */
+export const loadActiveJobs = (): ActiveJob[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ActiveJob[]) : [];
+  } catch (error) {
+    console.error('Error loading active jobs:', error);
+    return [];
+  }
+};
+
+const storeActiveJobs = (jobs: ActiveJob[]) => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch (error) {
+    console.error('Error saving active jobs:', error);
+  }
+};
+
+/**
+ * Remember a job so it can be resumed after a reload
+ */
+export const saveActiveJob = (job: ActiveJob) => {
+  storeActiveJobs([...loadActiveJobs().filter(j => j.jobId !== job.jobId), job]);
+};
+
+/**
+ * Forget a job once it has finished
+ */
+export const removeActiveJob = (jobId: string) => {
+  storeActiveJobs(loadActiveJobs().filter(job => job.jobId !== jobId));
+};
+
+/**
+ * Merge a job status snapshot into the files that belong to it
+ */
+export const applyJobUpdate = (files: SketchFile[], job: ProcessJobResponse): SketchFile[] => {
+  const items = new Map(job.items.map(item => [item.input_key, item]));
+
+  return files.map(file => {
+    if (file.jobId !== job.job_id) return file;
+
+    // Files stopped on this side keep their status whatever the job reports next
+    if (file.status === 'cancelled') return file;
+
+    const item = items.get(file.originalKey);
+    if (!item) {
+      // The job ended without reporting this file
+      if (!isJobFinished(job.status) || file.status === 'completed') return file;
+      return job.status === 'cancelled'
+        ? { ...file, status: 'cancelled' }
+        : { ...file, status: 'failed', error: job.error || 'Processing failed' };
+    }
+
+    switch (item.status) {
+      case 'completed':
+        return {
+          ...file,
+          status: 'completed',
+          sketchKey: item.output_key,
+          sketchUrl: item.download_url,
+          progress: 100,
+          error: undefined,
+        };
+      case 'failed':
+        return { ...file, status: 'failed', error: item.error || 'Processing failed' };
+      case 'cancelled':
+        return { ...file, status: 'cancelled', error: undefined };
+      default:
+        if (job.status === 'cancelled') {
+          return { ...file, status: 'cancelled' };
+        }
+        if (isJobFinished(job.status)) {
+          return { ...file, status: 'failed', error: job.error || 'Processing did not finish' };
+        }
+        return { ...file, status: item.status, progress: item.progress ?? file.progress };
+    }
+  });
+};
+
+/**
+ * Overall progress of a job, counting failed and cancelled items as done
+ */
+export const getJobProgress = (job: ProcessJobResponse) => {
+  if (job.total === 0) return 0;
+  const cancelled = job.items.filter(item => item.status === 'cancelled').length;
+  return Math.round(((job.completed + job.failed + cancelled) / job.total) * 100);
+};
+
+/**
+ * Resolve after a delay, rejecting early if the signal aborts
+ */
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Operation was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+
+interface PollOptions {
+  onUpdate: (job: ProcessJobResponse) => void;
+  interval?: number;
+  maxInterval?: number;
+  maxErrors?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Poll a job until it finishes, backing off while the status endpoint fails
+ */
+export const pollProcessJob = async (
+  jobId: string,
+  options: PollOptions
+): Promise<ProcessJobResponse> => {
+  const { onUpdate, interval = 1500, maxInterval = 30000, maxErrors = 8, signal } = options;
+  let errors = 0;
+
+  while (true) {
+    if (signal?.aborted) {
+      throw new Error('Polling was aborted');
+    }
+
+    try {
+      const { data } = await fileApi.getProcessJob(jobId, signal);
+      errors = 0;
+      onUpdate(data);
+
+      if (isJobFinished(data.status)) {
+        return data;
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new Error('Polling was aborted');
+      }
+
+      errors++;
+      console.error(`Error polling job ${jobId}:`, error);
+      if (errors >= maxErrors) {
+        throw error instanceof Error ? error : new Error('Failed to get job status');
+      }
+    }
+
+    const delay = errors > 0 ? Math.min(maxInterval, interval * Math.pow(2, errors)) : interval;
+    await wait(delay, signal);
+  }
+};
@@ -0,0 +1,331 @@
+import { fileApi, MultipartUploadPart } from '@/services/file.api';
+import { wait } from '@/lib/jobs';
+import {
+  deleteStoredUpload,
+  getStoredUpload,
+  getUploadFingerprint,
+  saveStoredUpload,
+  StoredMultipartUpload,
+} from '@/lib/upload-store';
+
+// Files at least this large are uploaded in parts
+export const MULTIPART_THRESHOLD = 32 * 1024 * 1024;
+
+// S3 rejects parts under 5 MB (except the last one) and uploads with more than 10,000 parts
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+// Older uploads are started over, the bucket lifecycle rule may already have removed them
+const MAX_RESUME_AGE = 6 * 24 * 60 * 60 * 1000;
+
+// Presigned part URLs requested per round trip
+const PART_URL_BATCH = 20;
+
+export interface MultipartUploadOptions {
+  prefix?: string;
+  isPublic?: boolean;
+  metadata?: Record<string, string>;
+  partSize?: number;
+  concurrency?: number;
+  // Attempts per part after the first one fails
+  maxRetries?: number;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface MultipartUploadResult {
+  key: string;
+  etag: string;
+  resumed: boolean;
+}
+
+/**
+ * Part size for a file, growing past the preferred size when the file would need too many parts
+ */
+export const getPartSize = (fileSize: number, preferred: number = DEFAULT_PART_SIZE) =>
+  Math.max(MIN_PART_SIZE, preferred, Math.ceil(fileSize / MAX_PARTS));
+
+/**
+ * Whether the backend or the bucket no longer knows the upload
+ *
+ * API calls reject with the response body, where the backend passes on S3's
+ * NoSuchUpload; part PUTs reject with an error carrying the HTTP status.
+ */
+const isMissingUpload = (error: unknown) => {
+  if (typeof error !== 'object' || error === null) return false;
+
+  const { status, detail } = error as { status?: unknown; detail?: unknown };
+  return status === 404 || (typeof detail === 'string' && /NoSuchUpload|upload.*not found/i.test(detail));
+};
+
+/**
+ * PUT one part to its presigned URL and return the part ETag
+ */
+const putPart = (
+  url: string,
+  body: Blob,
+  onProgress: (loaded: number) => void,
+  signal: AbortSignal
+) => new Promise<string>((resolve, reject) => {
+  const xhr = new XMLHttpRequest();
+
+  const handleAbort = () => xhr.abort();
+  signal.addEventListener('abort', handleAbort);
+  const cleanup = () => signal.removeEventListener('abort', handleAbort);
+
+  xhr.upload.addEventListener('progress', (event) => {
+    if (event.lengthComputable) onProgress(event.loaded);
+  });
+
+  xhr.addEventListener('load', () => {
+    cleanup();
+    if (xhr.status < 200 || xhr.status >= 300) {
+      reject(Object.assign(new Error(`Part upload failed with status ${xhr.status}`), { status: xhr.status }));
+      return;
+    }
+
+    // The bucket CORS rule has to expose ETag, otherwise the header reads as null
+    const etag = xhr.getResponseHeader('ETag')?.replace(/"/g, '');
+    if (etag) {
+      resolve(etag);
+    } else {
+      reject(new Error('Part ETag is not exposed by the storage CORS configuration'));
+    }
+  });
+  xhr.addEventListener('error', () => {
+    cleanup();
+    reject(new Error('Network error occurred during part upload'));
+  });
+  xhr.addEventListener('abort', () => {
+    cleanup();
+    reject(new Error('Upload was aborted'));
+  });
+
+  // Parts are signed without a content type, so none is sent
+  xhr.open('PUT', url);
+  xhr.send(body);
+});
+
+/**
+ * Pick up a saved upload for this file or start a new one on the backend
+ */
+const startUpload = async (
+  file: File,
+  id: string,
+  options: MultipartUploadOptions
+): Promise<{ upload: StoredMultipartUpload; resumed: boolean }> => {
+  const partSize = getPartSize(file.size, options.partSize);
+  const stored = await getStoredUpload(id);
+
+  if (stored) {
+    const age = Date.now() - new Date(stored.createdAt).getTime();
+    if (age < MAX_RESUME_AGE) {
+      return { upload: stored, resumed: true };
+    }
+    await deleteStoredUpload(id);
+  }
+
+  const { data } = await fileApi.createMultipartUpload({
+    file_name: file.name,
+    prefix: options.prefix,
+    is_public: options.isPublic,
+    metadata: options.metadata,
+    file_type: file.type || 'application/octet-stream',
+    file_size: file.size,
+    part_size: partSize,
+  });
+
+  const now = new Date().toISOString();
+  const upload: StoredMultipartUpload = {
+    id,
+    key: data.key,
+    uploadId: data.upload_id,
+    fileName: file.name,
+    fileSize: file.size,
+    partSize,
+    parts: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveStoredUpload(upload);
+
+  return { upload, resumed: false };
+};
+
+/**
+ * Send every part that is not stored as done yet, a few at a time
+ */
+const uploadParts = async (
+  file: File,
+  upload: StoredMultipartUpload,
+  options: MultipartUploadOptions
+) => {
+  const { concurrency = 4, maxRetries = 3, onProgress } = options;
+  const totalParts = Math.max(1, Math.ceil(file.size / upload.partSize));
+  const partLength = (partNumber: number) =>
+    Math.min(upload.partSize, file.size - (partNumber - 1) * upload.partSize);
+
+  const done = new Map(upload.parts.map(part => [part.part_number, part.etag]));
+  const queue = Array.from({ length: totalParts }, (_, index) => index + 1)
+    .filter(partNumber => !done.has(partNumber));
+
+  // Bytes sent so far for parts that are still in flight
+  const inFlight = new Map<number, number>();
+  let doneBytes = Array.from(done.keys()).reduce((sum, partNumber) => sum + partLength(partNumber), 0);
+  const reportProgress = () => {
+    const sending = Array.from(inFlight.values()).reduce((sum, loaded) => sum + loaded, 0);
+    onProgress?.(Math.min(file.size, doneBytes + sending), file.size);
+  };
+  reportProgress();
+
+  // One failed part stops the others; the saved parts are kept for the next attempt
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', forwardAbort);
+
+  const urls = new Map<number, string>();
+  const urlRequests = new Map<number, Promise<void>>();
+
+  const ensureUrl = async (partNumber: number) => {
+    if (urls.has(partNumber)) return;
+
+    const pendingRequest = urlRequests.get(partNumber);
+    if (pendingRequest) {
+      await pendingRequest;
+      if (urls.has(partNumber)) return;
+    }
+
+    // Request URLs for this part and the next few that still need one
+    const batch = [partNumber, ...queue.filter(n => !urls.has(n) && !urlRequests.has(n))]
+      .slice(0, PART_URL_BATCH);
+    const request = fileApi.getMultipartPartUrls({
+      key: upload.key,
+      upload_id: upload.uploadId,
+      part_numbers: batch,
+    }).then(({ data }) => {
+      data.urls.forEach(url => urls.set(url.part_number, url.presigned_url));
+    }).finally(() => {
+      batch.forEach(n => urlRequests.delete(n));
+    });
+
+    batch.forEach(n => urlRequests.set(n, request));
+    await request;
+  };
+
+  const uploadPart = async (partNumber: number) => {
+    const start = (partNumber - 1) * upload.partSize;
+    const body = file.slice(start, start + partLength(partNumber));
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await ensureUrl(partNumber);
+        const url = urls.get(partNumber);
+        if (!url) {
+          throw new Error(`No upload URL was returned for part ${partNumber}`);
+        }
+
+        const etag = await putPart(url, body, (loaded) => {
+          inFlight.set(partNumber, loaded);
+          reportProgress();
+        }, controller.signal);
+
+        inFlight.delete(partNumber);
+        done.set(partNumber, etag);
+        doneBytes += body.size;
+        reportProgress();
+
+        upload.parts = Array.from(done.entries())
+          .map(([part_number, partEtag]) => ({ part_number, etag: partEtag }))
+          .sort((a, b) => a.part_number - b.part_number);
+        upload.updatedAt = new Date().toISOString();
+        await saveStoredUpload(upload);
+        return;
+      } catch (error) {
+        inFlight.delete(partNumber);
+        reportProgress();
+
+        if (controller.signal.aborted || isMissingUpload(error) || attempt >= maxRetries) {
+          throw error;
+        }
+
+        // The URL may have expired, so the retry signs the part again
+        urls.delete(partNumber);
+        console.warn(`Retrying part ${partNumber} of ${file.name}:`, error);
+        await wait(1000 * Math.pow(2, attempt), controller.signal);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const partNumber = queue.shift() as number;
+      await uploadPart(partNumber);
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, queue.length) }, () =>
+        worker().catch(error => {
+          controller.abort();
+          throw error;
+        })
+      )
+    );
+  } finally {
+    options.signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  return upload.parts;
+};
+
+/**
+ * Upload a large file in parts, resuming from saved state when the same file was interrupted before
+ */
+export const uploadMultipart = async (
+  file: File,
+  options: MultipartUploadOptions = {}
+): Promise<MultipartUploadResult> => {
+  const id = getUploadFingerprint(file, options.prefix);
+
+  for (let attempt = 0; ; attempt++) {
+    const { upload, resumed } = await startUpload(file, id, options);
+
+    try {
+      const parts: MultipartUploadPart[] = await uploadParts(file, upload, options);
+      const { data } = await fileApi.completeMultipartUpload({
+        key: upload.key,
+        upload_id: upload.uploadId,
+        parts,
+      });
+
+      await deleteStoredUpload(id);
+      return { key: data.key, etag: data.etag.replace(/"/g, ''), resumed };
+    } catch (error) {
+      // The backend no longer knows the saved upload, start over once
+      if (resumed && attempt === 0 && isMissingUpload(error)) {
+        console.warn(`Stored upload for ${file.name} has expired, starting over`);
+        await deleteStoredUpload(id);
+        continue;
+      }
+      throw error;
+    }
+  }
+};
+
+/**
+ * Drop an interrupted upload for good, both locally and on the backend
+ */
+export const discardMultipartUpload = async (file: File, prefix?: string) => {
+  const id = getUploadFingerprint(file, prefix);
+  const stored = await getStoredUpload(id);
+  if (!stored) return;
+
+  await deleteStoredUpload(id);
+  try {
+    await fileApi.abortMultipartUpload({ key: stored.key, upload_id: stored.uploadId });
+  } catch (error) {
+    console.error('Error aborting multipart upload:', error);
+  }
+};
@@ -0,0 +1,21 @@
+import { Plan, Subscription, SubscriptionStatus } from '@/types';
+
+export interface PlanLimits {
+  // Files that can be queued and uploaded in one batch
+  maxFilesPerBatch: number;
+}
+
+export const PLAN_LIMITS: Record<Plan, PlanLimits> = {
+  [Plan.STARTER]: { maxFilesPerBatch: 10 },
+  [Plan.PRO]: { maxFilesPerBatch: 250 },
+  [Plan.ENTERPRISE]: { maxFilesPerBatch: 2000 },
+};
+
+/**
+ * Limits that apply to a subscription; lapsed subscriptions fall back to the starter plan
+ */
+export const getPlanLimits = (subscription?: Subscription | null): PlanLimits => {
+  const isActive = subscription?.status === SubscriptionStatus.ACTIVE
+    || subscription?.status === SubscriptionStatus.TRIAL;
+  return PLAN_LIMITS[isActive && subscription ? subscription.plan : Plan.STARTER];
+};
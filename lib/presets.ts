@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import { SketchMethod, SketchPreset, DEFAULT_SKETCH_CONFIG } from '@/types';
+import { sketchOptionsSchema } from '@/components/ui/sketch-options';
+
+const STORAGE_KEY = 'imagetosketch:sketch-presets';
+
+// Bump when the export format changes and handle older versions in parsePresetFile
+export const PRESET_FILE_VERSION = 1;
+
+const BUILT_IN_TIMESTAMP = '2025-01-01T00:00:00.000Z';
+
+const builtInPresets: Array<Pick<SketchPreset, 'id' | 'name' | 'method' | 'config'>> = [
+  {
+    id: 'builtin-basic-pencil',
+    name: 'Quick Pencil',
+    method: SketchMethod.BASIC,
+    config: { kernel_size: 21, blur_type: 'gaussian', contrast: 1.2, brightness: 0 },
+  },
+  {
+    id: 'builtin-basic-crisp',
+    name: 'Crisp Lines',
+    method: SketchMethod.BASIC,
+    config: { kernel_size: 9, blur_type: 'median', contrast: 1.8, brightness: 5 },
+  },
+  {
+    id: 'builtin-advanced-balanced',
+    name: 'Balanced',
+    method: SketchMethod.ADVANCED,
+    config: { ...DEFAULT_SKETCH_CONFIG },
+  },
+  {
+    id: 'builtin-advanced-portrait',
+    name: 'Soft Portrait',
+    method: SketchMethod.ADVANCED,
+    config: {
+      sigma_s: 80,
+      sigma_r: 0.1,
+      shade_factor: 0.08,
+      kernel_size: 25,
+      blur_type: 'bilateral',
+      edge_preserve: true,
+      texture_enhance: false,
+      contrast: 1.3,
+      brightness: 5,
+      smoothing_factor: 1,
+    },
+  },
+  {
+    id: 'builtin-artistic-charcoal',
+    name: 'Charcoal',
+    method: SketchMethod.ARTISTIC,
+    config: {
+      sigma_s: 50,
+      sigma_r: 0.06,
+      shade_factor: 0.15,
+      kernel_size: 31,
+      blur_type: 'gaussian',
+      edge_preserve: true,
+      texture_enhance: true,
+      contrast: 2,
+      brightness: -10,
+      smoothing_factor: 0.5,
+    },
+  },
+  {
+    id: 'builtin-artistic-graphite',
+    name: 'Light Graphite',
+    method: SketchMethod.ARTISTIC,
+    config: {
+      sigma_s: 60,
+      sigma_r: 0.05,
+      shade_factor: 0.03,
+      kernel_size: 15,
+      blur_type: 'gaussian',
+      edge_preserve: true,
+      texture_enhance: false,
+      contrast: 1.2,
+      brightness: 10,
+      smoothing_factor: 0.6,
+    },
+  },
+];
+
+export const BUILT_IN_PRESETS: SketchPreset[] = builtInPresets.map(preset => ({
+  ...preset,
+  builtIn: true,
+  createdAt: BUILT_IN_TIMESTAMP,
+  updatedAt: BUILT_IN_TIMESTAMP,
+}));
+
+const presetSchema = sketchOptionsSchema.extend({
+  name: z.string().trim().min(1).max(80),
+});
+
+const presetFileSchema = z.object({
+  version: z.literal(PRESET_FILE_VERSION),
+  presets: z.array(presetSchema),
+});
+
+export type PresetFile = z.infer<typeof presetFileSchema>;
+
+const storedPresetsSchema = z.array(presetSchema.extend({
+  id: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}));
+
+/**
+ * Read user presets from localStorage, dropping anything that no longer validates
+ */
+export const loadStoredPresets = (): SketchPreset[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+
+    const result = storedPresetsSchema.safeParse(JSON.parse(raw));
+    if (!result.success) {
+      console.warn('Ignoring invalid stored presets:', result.error.issues);
+      return [];
+    }
+
+    return result.data.map(preset => ({ ...preset, config: preset.config || {} }));
+  } catch (error) {
+    console.error('Error loading presets:', error);
+    return [];
+  }
+};
+
+/**
+ * Persist user presets to localStorage
+ */
+export const storePresets = (presets: SketchPreset[]) => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    const userPresets = presets.filter(preset => !preset.builtIn);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(userPresets));
+  } catch (error) {
+    console.error('Error saving presets:', error);
+  }
+};
+
+/**
+ * Serialise presets into the versioned export format
+ */
+export const serializePresets = (presets: SketchPreset[]): string => {
+  const file: PresetFile & { exportedAt: string } = {
+    version: PRESET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets: presets.map(({ name, method, config }) => ({ name, method, config })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parse and validate an exported preset file
+ */
+export const parsePresetFile = (text: string): PresetFile['presets'] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+
+  const version = (json as { version?: unknown })?.version;
+  if (typeof version === 'number' && version > PRESET_FILE_VERSION) {
+    throw new Error(`Preset file version ${version} is newer than this app supports`);
+  }
+
+  const result = presetFileSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid preset file: ${issue.path.join('.') || 'root'} ${issue.message}`);
+  }
+
+  return result.data.presets;
+};
@@ -0,0 +1,195 @@
+import { fileApi } from '@/services/file.api';
+
+/**
+ * Presigned download URLs by object key, refreshed before they expire
+ *
+ * Keys with a mounted subscriber are refreshed in the background a minute
+ * before their link lapses. Everything else gets a new link on demand.
+ */
+
+// Lifetime asked for when a link is refreshed, in seconds
+export const PRESIGNED_URL_LIFETIME = 60 * 60;
+
+// Links are replaced this long before they expire
+const REFRESH_MARGIN = 60 * 1000;
+// Lifetime assumed for links whose expiry cannot be read from the URL
+const ASSUMED_LIFETIME = 10 * 60 * 1000;
+// Wait before trying again after a background refresh failed
+const RETRY_DELAY = 30 * 1000;
+
+interface PresignedEntry {
+  url: string;
+  expiresAt: number;
+}
+
+type Listener = (url: string) => void;
+
+const entries = new Map<string, PresignedEntry>();
+const listeners = new Map<string, Set<Listener>>();
+const refreshes = new Map<string, Promise<string>>();
+// When to try again for keys whose last refresh failed, with or without a link
+const retries = new Map<string, number>();
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Only http(s) links expire; blob: and data: URLs of local sketches do not
+ */
+export const isPresignedUrl = (url?: string): url is string => Boolean(url && /^https?:\/\//i.test(url));
+
+/**
+ * Expiry from the query string of S3 SigV4 (X-Amz-Date + X-Amz-Expires) or SigV2 (Expires) links
+ */
+const getExpiryFromUrl = (url: string): number | null => {
+  try {
+    const params = new URL(url).searchParams;
+    const signedAt = params.get('X-Amz-Date');
+    const lifetime = params.get('X-Amz-Expires');
+    if (signedAt && lifetime) {
+      const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(signedAt);
+      if (match) {
+        const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+        return Date.UTC(year, month - 1, day, hours, minutes, seconds) + Number(lifetime) * 1000;
+      }
+    }
+
+    const expires = params.get('Expires');
+    if (expires && /^\d+$/.test(expires)) return Number(expires) * 1000;
+  } catch {
+    // Not a URL we can read, fall back to the assumed lifetime
+  }
+  return null;
+};
+
+const isExpiring = (entry: PresignedEntry | undefined) => !entry || entry.expiresAt - Date.now() <= REFRESH_MARGIN;
+
+// Time a subscribed key's link should be refreshed at
+const getRefreshTime = (key: string) => {
+  const retryAt = retries.get(key);
+  if (retryAt !== undefined) return retryAt;
+
+  const entry = entries.get(key);
+  return entry ? entry.expiresAt - REFRESH_MARGIN : Date.now();
+};
+
+const handleRefreshError = (key: string, error: unknown) => {
+  console.warn(`Error refreshing download URL for ${key}:`, error);
+  retries.set(key, Date.now() + RETRY_DELAY);
+};
+
+const refreshDue = () => {
+  refreshTimer = null;
+  const due = Array.from(listeners.keys()).filter(key => getRefreshTime(key) <= Date.now());
+
+  Promise.all(due.map(key => refreshPresignedUrl(key).catch(error => handleRefreshError(key, error))))
+    .then(scheduleRefresh);
+};
+
+/**
+ * Set the timer for the next link that a mounted component needs refreshed
+ */
+const scheduleRefresh = () => {
+  if (typeof window === 'undefined') return;
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+
+  let next = Number.POSITIVE_INFINITY;
+  listeners.forEach((_, key) => {
+    if (entries.has(key) || retries.has(key)) next = Math.min(next, getRefreshTime(key));
+  });
+  if (next === Number.POSITIVE_INFINITY) return;
+
+  refreshTimer = setTimeout(refreshDue, Math.max(0, next - Date.now()));
+};
+
+/**
+ * Store a link for a key and hand it to every subscriber
+ */
+export const setPresignedUrl = (key: string, url: string, expiresIn?: number) => {
+  const expiresAt = expiresIn
+    ? Date.now() + expiresIn * 1000
+    : getExpiryFromUrl(url) ?? Date.now() + ASSUMED_LIFETIME;
+
+  entries.set(key, { url, expiresAt });
+  retries.delete(key);
+  listeners.get(key)?.forEach(listener => listener(url));
+  scheduleRefresh();
+};
+
+/**
+ * Remember a link from an API response unless a newer one is already known
+ */
+export const registerPresignedUrl = (key: string, url: string) => {
+  if (!isPresignedUrl(url) || entries.has(key)) return;
+  setPresignedUrl(key, url);
+};
+
+export const getPresignedUrl = (key: string) => entries.get(key)?.url;
+
+/**
+ * Ask the backend for a new link, sharing the request between simultaneous callers
+ */
+export const refreshPresignedUrl = (key: string): Promise<string> => {
+  let refresh = refreshes.get(key);
+  if (!refresh) {
+    refresh = fileApi.getDownloadUrl(key, PRESIGNED_URL_LIFETIME)
+      .then(({ data }) => {
+        setPresignedUrl(key, data.url, PRESIGNED_URL_LIFETIME);
+        return data.url;
+      })
+      .finally(() => refreshes.delete(key));
+    refreshes.set(key, refresh);
+  }
+  return refresh;
+};
+
+/**
+ * A link for a key that is good for at least another minute
+ *
+ * Without a key, or for a local URL, the given URL is returned as is.
+ */
+export const resolvePresignedUrl = async (key: string | undefined, url?: string): Promise<string> => {
+  if (!key || (url && !isPresignedUrl(url))) {
+    if (!url) throw new Error('No URL available');
+    return url;
+  }
+
+  if (url) registerPresignedUrl(key, url);
+  const entry = entries.get(key);
+  return entry && !isExpiring(entry) ? entry.url : refreshPresignedUrl(key);
+};
+
+/**
+ * Fetch a presigned object, trying once more with a new link on a 403
+ */
+export const fetchPresigned = async (key: string | undefined, url: string, init?: RequestInit) => {
+  const response = await fetch(await resolvePresignedUrl(key, url), init);
+  if (response.status !== 403 || !key || !isPresignedUrl(url)) return response;
+
+  return fetch(await refreshPresignedUrl(key), init);
+};
+
+/**
+ * Follow a key's link as it is refreshed; keeps it refreshed while subscribed
+ */
+export const subscribePresignedUrl = (key: string, listener: Listener) => {
+  const keyListeners = listeners.get(key) ?? new Set<Listener>();
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+  scheduleRefresh();
+
+  if (isExpiring(entries.get(key)) && !retries.has(key)) {
+    refreshPresignedUrl(key).catch(error => {
+      handleRefreshError(key, error);
+      scheduleRefresh();
+    });
+  }
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) {
+      listeners.delete(key);
+      retries.delete(key);
+    }
+    scheduleRefresh();
+  };
+};
@@ -0,0 +1,223 @@
+import { ProcessJobItem, ProcessJobResponse, ProcessJobStatus } from '@/services/file.api';
+import { isJobFinished, pollProcessJob, wait } from '@/lib/jobs';
+
+/**
+ * Realtime progress for processing jobs.
+ *
+ * A job is watched over a WebSocket or Server-Sent Events stream. Dropped
+ * connections are retried with exponential backoff, and when no realtime
+ * transport can be opened the job is polled through the REST endpoint instead.
+ */
+
+export type ProgressTransport = 'websocket' | 'sse' | 'polling';
+
+export type ChannelState = 'connecting' | 'open' | 'reconnecting' | 'polling' | 'closed';
+
+// Messages sent by the backend on both realtime transports
+export type JobProgressMessage =
+  | { type: 'snapshot'; job: ProcessJobResponse }
+  | { type: 'item'; job_id: string; item: ProcessJobItem }
+  | { type: 'status'; job_id: string; status: ProcessJobStatus; error?: string };
+
+interface WatchOptions {
+  onUpdate: (job: ProcessJobResponse) => void;
+  onStateChange?: (state: ChannelState, transport: ProgressTransport) => void;
+  // Realtime transports to try, in order, before falling back to polling
+  transports?: Exclude<ProgressTransport, 'polling'>[];
+  maxReconnects?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  signal?: AbortSignal;
+}
+
+const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || '';
+
+/**
+ * Endpoint of a job's progress stream for the given transport
+ */
+export const getProgressChannelUrl = (jobId: string, transport: Exclude<ProgressTransport, 'polling'>) => {
+  const base = backendUrl || (typeof window !== 'undefined' ? window.location.origin : '');
+
+  if (transport === 'websocket') {
+    return `${base.replace(/^http/, 'ws')}/api/file/jobs/${jobId}/ws`;
+  }
+  return `${base}/api/file/jobs/${jobId}/events`;
+};
+
+const isTransportAvailable = (transport: ProgressTransport) => {
+  if (typeof window === 'undefined') return false;
+  if (transport === 'websocket') return typeof WebSocket !== 'undefined';
+  if (transport === 'sse') return typeof EventSource !== 'undefined';
+  return true;
+};
+
+/**
+ * Apply a progress message to the latest job snapshot
+ */
+export const reduceJobMessage = (
+  job: ProcessJobResponse | null,
+  message: JobProgressMessage
+): ProcessJobResponse | null => {
+  if (message.type === 'snapshot') return message.job;
+
+  // Item and status events only make sense once a snapshot has arrived
+  if (!job || job.job_id !== message.job_id) return job;
+
+  if (message.type === 'status') {
+    return { ...job, status: message.status, error: message.error ?? job.error };
+  }
+
+  const items = job.items.some(item => item.input_key === message.item.input_key)
+    ? job.items.map(item => item.input_key === message.item.input_key ? message.item : item)
+    : [...job.items, message.item];
+
+  return {
+    ...job,
+    items,
+    completed: items.filter(item => item.status === 'completed').length,
+    failed: items.filter(item => item.status === 'failed').length,
+  };
+};
+
+const parseMessage = (data: unknown): JobProgressMessage | null => {
+  if (typeof data !== 'string') return null;
+  try {
+    return JSON.parse(data) as JobProgressMessage;
+  } catch {
+    console.warn('Ignoring malformed progress message:', data);
+    return null;
+  }
+};
+
+interface ConnectionState {
+  opened: boolean;
+  // Whether the connection delivered a job update before it dropped
+  updated: boolean;
+}
+
+/**
+ * Hold one realtime connection open until the job finishes or the connection drops
+ */
+const connect = (
+  jobId: string,
+  transport: Exclude<ProgressTransport, 'polling'>,
+  connection: ConnectionState,
+  options: WatchOptions
+): Promise<ProcessJobResponse> => {
+  const url = getProgressChannelUrl(jobId, transport);
+
+  return new Promise<ProcessJobResponse>((resolve, reject) => {
+    let snapshot: ProcessJobResponse | null = null;
+    let settled = false;
+
+    const source: WebSocket | EventSource = transport === 'websocket'
+      ? new WebSocket(url)
+      : new EventSource(url, { withCredentials: true });
+
+    const close = () => {
+      options.signal?.removeEventListener('abort', handleAbort);
+      source.close();
+    };
+
+    const settle = (error: Error | null, job?: ProcessJobResponse) => {
+      if (settled) return;
+      settled = true;
+      close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(job as ProcessJobResponse);
+      }
+    };
+
+    const handleAbort = () => settle(new Error('Progress channel was aborted'));
+    options.signal?.addEventListener('abort', handleAbort);
+
+    source.onopen = () => {
+      connection.opened = true;
+      options.onStateChange?.('open', transport);
+    };
+
+    source.onmessage = (event: MessageEvent) => {
+      const message = parseMessage(event.data);
+      if (!message) return;
+
+      snapshot = reduceJobMessage(snapshot, message);
+      if (!snapshot) return;
+
+      connection.updated = true;
+      options.onUpdate(snapshot);
+      if (isJobFinished(snapshot.status)) {
+        settle(null, snapshot);
+      }
+    };
+
+    // EventSource reconnects on its own; we close it so retries follow our backoff
+    source.onerror = () => {
+      if (transport === 'sse') {
+        settle(new Error('Progress stream disconnected'));
+      }
+    };
+
+    if (source instanceof WebSocket) {
+      source.onclose = () => settle(new Error('Progress socket closed'));
+    }
+  });
+};
+
+/**
+ * Watch a job over the best available transport until it finishes
+ */
+export const watchProcessJob = async (
+  jobId: string,
+  options: WatchOptions
+): Promise<ProcessJobResponse> => {
+  const {
+    transports = ['websocket', 'sse'],
+    maxReconnects = 5,
+    baseDelay = 1000,
+    maxDelay = 30000,
+    signal,
+  } = options;
+
+  for (const transport of transports) {
+    if (!isTransportAvailable(transport)) continue;
+
+    let attempt = 0;
+    while (attempt <= maxReconnects) {
+      if (signal?.aborted) {
+        throw new Error('Progress channel was aborted');
+      }
+
+      const connection: ConnectionState = { opened: false, updated: false };
+      options.onStateChange?.(attempt === 0 ? 'connecting' : 'reconnecting', transport);
+
+      try {
+        const job = await connect(jobId, transport, connection, options);
+        options.onStateChange?.('closed', transport);
+        return job;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+
+        // A transport that cannot even open the first time is treated as unavailable
+        if (attempt === 0 && !connection.opened) {
+          console.warn(`Progress ${transport} unavailable, trying next transport`);
+          break;
+        }
+
+        // Only a connection that delivered progress starts counting retries again;
+        // one that is accepted and dropped straight away still runs out of them
+        attempt = connection.updated ? 1 : attempt + 1;
+        if (attempt > maxReconnects) break;
+
+        const backoff = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+        await wait(backoff * (0.5 + Math.random() / 2), signal);
+      }
+    }
+  }
+
+  options.onStateChange?.('polling', 'polling');
+  const job = await pollProcessJob(jobId, { onUpdate: options.onUpdate, signal });
+  options.onStateChange?.('closed', 'polling');
+  return job;
+};
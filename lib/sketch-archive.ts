@@ -0,0 +1,242 @@
+import { SketchFile } from '@/types';
+import { createZipStream, ZipSource } from '@/lib/zip';
+import { fetchPresigned } from '@/lib/presigned-urls';
+
+const PATTERN_STORAGE_KEY = 'imagetosketch:archive-name-pattern';
+
+// Tokens: {name} source name without extension, {method}, {date}, {time}, {index}, {id}
+export const DEFAULT_FILE_NAME_PATTERN = '{name}_{method}_{date}';
+
+export const FILE_NAME_TOKENS = ['{name}', '{method}', '{date}', '{time}', '{index}', '{id}'];
+
+// Bump when the manifest layout changes
+export const MANIFEST_VERSION = 1;
+
+export interface SketchManifestEntry {
+  file: string;
+  source: string;
+  originalKey: string;
+  sketchKey?: string;
+  method: SketchFile['method'];
+  config: NonNullable<SketchFile['config']>;
+}
+
+export interface SketchManifest {
+  version: number;
+  exportedAt: string;
+  pattern: string;
+  export?: Record<string, unknown>;
+  files: SketchManifestEntry[];
+  // Sketches that could not be downloaded
+  skipped: Array<{ source: string; error: string }>;
+}
+
+export interface SketchArchiveOptions {
+  pattern?: string;
+  archiveName?: string;
+  // Produce each entry from the sketch instead of downloading it as is
+  convert?: (file: SketchFile) => Promise<{ blob: Blob; extension: string }>;
+  // Recorded in the manifest next to the per-file settings
+  exportSettings?: Record<string, unknown>;
+  onProgress?: (current: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface SketchArchiveResult {
+  written: number;
+  skipped: number;
+  // False when the user dismissed the save dialog
+  saved: boolean;
+}
+
+export const loadFileNamePattern = () => {
+  if (typeof window === 'undefined') return DEFAULT_FILE_NAME_PATTERN;
+  return window.localStorage.getItem(PATTERN_STORAGE_KEY) || DEFAULT_FILE_NAME_PATTERN;
+};
+
+export const storeFileNamePattern = (pattern: string) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(PATTERN_STORAGE_KEY, pattern);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Characters Windows and macOS refuse in file names
+const sanitize = (value: string) => value.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '-').trim();
+
+/**
+ * Extension of the sketch, from its key or URL
+ */
+const getSketchExtension = (file: SketchFile) => {
+  const source = file.sketchKey ?? (file.sketchUrl?.startsWith('blob:') ? '' : file.sketchUrl ?? '');
+  const path = source.split('?')[0];
+  const match = /\.([a-z0-9]{2,4})$/i.exec(path);
+  return match ? match[1].toLowerCase() : 'png';
+};
+
+/**
+ * Name a sketch inside the archive by filling in a pattern
+ */
+export const formatSketchFileName = (pattern: string, file: SketchFile, index: number, date: Date = new Date()) => {
+  const values: Record<string, string> = {
+    name: file.name.replace(/\.[^./]+$/, ''),
+    method: file.method,
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`,
+    index: String(index + 1).padStart(3, '0'),
+    id: file.id.slice(0, 8),
+  };
+
+  const baseName = sanitize(
+    (pattern.trim() || DEFAULT_FILE_NAME_PATTERN).replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token)
+  );
+  return `${baseName || values.name}.${getSketchExtension(file)}`;
+};
+
+/**
+ * Suffix repeated names, since entries in an archive overwrite each other on extraction
+ */
+const makeUnique = (name: string, used: Set<string>) => {
+  let candidate = name;
+  for (let count = 2; used.has(candidate.toLowerCase()); count++) {
+    candidate = name.replace(/(\.[^.]+)?$/, `-${count}$1`);
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Save a blob through a temporary link
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Save a stream as a file, straight to disk where the browser allows it
+ */
+const saveStream = async (stream: ReadableStream<Uint8Array>, fileName: string): Promise<boolean> => {
+  const picker = (window as Window & {
+    showSaveFilePicker?: (options: {
+      suggestedName: string;
+      types: Array<{ description: string; accept: Record<string, string[]> }>;
+    }) => Promise<FileSystemFileHandle>;
+  }).showSaveFilePicker;
+
+  if (picker) {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await picker({
+        suggestedName: fileName,
+        types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+      });
+    } catch (error) {
+      await stream.cancel();
+      if (error instanceof DOMException && error.name === 'AbortError') return false;
+      throw error;
+    }
+    await stream.pipeTo(await handle.createWritable());
+    return true;
+  }
+
+  // Without the File System Access API the archive has to be assembled in memory first
+  const blob = await new Response(stream).blob();
+  downloadBlob(blob.slice(0, blob.size, 'application/zip'), fileName);
+  return true;
+};
+
+/**
+ * Download completed sketches as one ZIP archive with a manifest of their settings
+ */
+export const downloadSketchArchive = async (
+  files: SketchFile[],
+  options: SketchArchiveOptions = {}
+): Promise<SketchArchiveResult> => {
+  const { pattern = DEFAULT_FILE_NAME_PATTERN, signal } = options;
+  const completed = files.filter(file => file.status === 'completed' && file.sketchUrl);
+  if (completed.length === 0) {
+    throw new Error('There are no completed sketches to download');
+  }
+
+  const exportedAt = new Date();
+  const usedNames = new Set<string>(['manifest.json']);
+  const manifest: SketchManifest = {
+    version: MANIFEST_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    pattern,
+    export: options.exportSettings,
+    files: [],
+    skipped: [],
+  };
+
+  const { convert } = options;
+  const sketchSources: ZipSource[] = completed.map((file, index) => {
+    let name = formatSketchFileName(pattern, file, index, exportedAt);
+    // Converted entries get their extension once the conversion is done
+    if (!convert) name = makeUnique(name, usedNames);
+
+    const source: ZipSource = {
+      name,
+      lastModified: exportedAt,
+      open: async () => {
+        let body: ReadableStream<Uint8Array>;
+        if (convert) {
+          const converted = await convert(file);
+          source.name = makeUnique(name.replace(/\.[^.]+$/, `.${converted.extension}`), usedNames);
+          body = converted.blob.stream();
+        } else {
+          const response = await fetchPresigned(file.sketchKey, file.sketchUrl as string, { signal });
+          if (!response.ok || !response.body) {
+            throw new Error(`Download failed with status ${response.status}`);
+          }
+          body = response.body;
+        }
+
+        manifest.files.push({
+          file: source.name,
+          source: file.name,
+          originalKey: file.originalKey,
+          sketchKey: file.sketchKey,
+          method: file.method,
+          config: file.config ?? {},
+        });
+        return body;
+      },
+    };
+    return source;
+  });
+
+  // The manifest is written last, once every download has succeeded or been skipped
+  const manifestSource: ZipSource = {
+    name: 'manifest.json',
+    lastModified: exportedAt,
+    open: async () => new Blob([JSON.stringify(manifest, null, 2)]).stream(),
+  };
+
+  const stream = createZipStream([...sketchSources, manifestSource], {
+    onSkip: (source, error) => {
+      console.error(`Error adding ${source.name} to archive:`, error);
+      const file = completed[sketchSources.indexOf(source)];
+      manifest.skipped.push({
+        source: file?.name ?? source.name,
+        error: error instanceof Error ? error.message : 'Download failed',
+      });
+    },
+    onEntry: (current, total) => options.onProgress?.(Math.min(current, total - 1), total - 1),
+    signal,
+  });
+
+  const archiveName = options.archiveName
+    ?? `sketches_${exportedAt.getFullYear()}-${pad(exportedAt.getMonth() + 1)}-${pad(exportedAt.getDate())}.zip`;
+  const saved = await saveStream(stream, archiveName);
+
+  return { written: manifest.files.length, skipped: manifest.skipped.length, saved };
+};
@@ -0,0 +1,81 @@
+import { DEFAULT_SKETCH_CONFIG, normalizeSketchConfig, SketchConfig, SketchMethod } from '@/types';
+
+const STORAGE_KEY = 'imagetosketch:sketch-cache';
+// Oldest entries are dropped past this many
+const MAX_ENTRIES = 500;
+
+// A finished sketch that an identical image with identical settings can reuse
+export interface CachedSketch {
+  outputKey: string;
+  createdAt: string;
+}
+
+/**
+ * Cache key for an image's content hash and the settings it is processed with
+ *
+ * The config is normalised and filled with defaults, so settings that render
+ * the same sketch share a key.
+ */
+export const getSketchCacheKey = (
+  contentHash: string,
+  method: SketchMethod,
+  config?: SketchConfig
+) => {
+  const fullConfig = { ...DEFAULT_SKETCH_CONFIG, ...normalizeSketchConfig(config ?? {}) };
+  // DEFAULT_SKETCH_CONFIG fixes the key order, so the string is stable
+  return `${contentHash}:${method}:${JSON.stringify(fullConfig)}`;
+};
+
+const loadCache = (): Record<string, CachedSketch> => {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, CachedSketch>) : {};
+  } catch (error) {
+    console.error('Error loading sketch cache:', error);
+    return {};
+  }
+};
+
+const storeCache = (cache: Record<string, CachedSketch>) => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error('Error saving sketch cache:', error);
+  }
+};
+
+/**
+ * Look up a previously processed sketch
+ */
+export const getCachedSketch = (cacheKey: string): CachedSketch | null => loadCache()[cacheKey] ?? null;
+
+/**
+ * Remember the output of a finished sketch
+ */
+export const cacheSketch = (cacheKey: string, outputKey: string) => {
+  const cache = loadCache();
+  cache[cacheKey] = { outputKey, createdAt: new Date().toISOString() };
+
+  const entries = Object.entries(cache);
+  if (entries.length > MAX_ENTRIES) {
+    entries
+      .sort(([, a], [, b]) => a.createdAt.localeCompare(b.createdAt))
+      .slice(0, entries.length - MAX_ENTRIES)
+      .forEach(([key]) => delete cache[key]);
+  }
+
+  storeCache(cache);
+};
+
+/**
+ * Drop a cached sketch whose output no longer exists
+ */
+export const forgetCachedSketch = (cacheKey: string) => {
+  const cache = loadCache();
+  delete cache[cacheKey];
+  storeCache(cache);
+};
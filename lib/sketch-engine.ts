@@ -0,0 +1,404 @@
+import { SketchMethod, SketchConfig, DEFAULT_SKETCH_CONFIG } from '@/types';
+
+/**
+ * Pure pixel pipelines behind the in-browser sketch renderer.
+ *
+ * Every stage works on a single-channel Float32Array in the 0-255 range so
+ * the same code runs inside the sketch worker and anywhere else a raw RGBA
+ * buffer is available.
+ */
+
+export interface SketchPixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface SketchRenderOptions {
+  method: SketchMethod;
+  config?: SketchConfig;
+  // Ratio between the rendered size and the original size. Spatial parameters
+  // (kernel_size, sigma_s) are scaled by it so previews look like full renders.
+  scale?: number;
+}
+
+const clamp = (value: number, min = 0, max = 255) =>
+  value < min ? min : value > max ? max : value;
+
+// Kernel sizes must be odd and at least 3, like OpenCV expects
+const toOddKernel = (size: number) => {
+  const rounded = Math.max(3, Math.round(size));
+  return rounded % 2 === 0 ? rounded + 1 : rounded;
+};
+
+/**
+ * Convert RGBA pixels to luminance
+ */
+export const toGrayscale = (rgba: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * rgba[p] + 0.587 * rgba[p + 1] + 0.114 * rgba[p + 2];
+  }
+  return gray;
+};
+
+/**
+ * Invert a grayscale buffer
+ */
+export const invert = (gray: Float32Array): Float32Array => {
+  const out = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    out[i] = 255 - gray[i];
+  }
+  return out;
+};
+
+/**
+ * Separable gaussian blur, sigma derived from the kernel size the way OpenCV does
+ */
+export const gaussianBlur = (src: Float32Array, width: number, height: number, kernelSize: number): Float32Array => {
+  const size = toOddKernel(kernelSize);
+  const radius = (size - 1) / 2;
+  const sigma = 0.3 * ((size - 1) * 0.5 - 1) + 0.8;
+
+  const kernel = new Float32Array(size);
+  let sum = 0;
+  for (let i = 0; i < size; i++) {
+    const x = i - radius;
+    kernel[i] = Math.exp(-(x * x) / (2 * sigma * sigma));
+    sum += kernel[i];
+  }
+  for (let i = 0; i < size; i++) {
+    kernel[i] /= sum;
+  }
+
+  const temp = new Float32Array(src.length);
+  const out = new Float32Array(src.length);
+
+  // Horizontal pass (edges are clamped)
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = 0; k < size; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k - radius));
+        acc += src[row + sx] * kernel[k];
+      }
+      temp[row + x] = acc;
+    }
+  }
+
+  // Vertical pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = 0; k < size; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k - radius));
+        acc += temp[sy * width + x] * kernel[k];
+      }
+      out[y * width + x] = acc;
+    }
+  }
+
+  return out;
+};
+
+/**
+ * Median blur using a sliding histogram per row (Huang's algorithm)
+ */
+export const medianBlur = (src: Float32Array, width: number, height: number, kernelSize: number): Float32Array => {
+  const radius = (toOddKernel(kernelSize) - 1) / 2;
+  const out = new Float32Array(src.length);
+  const histogram = new Uint32Array(256);
+
+  const sample = (x: number, y: number) => {
+    const sx = Math.min(width - 1, Math.max(0, x));
+    const sy = Math.min(height - 1, Math.max(0, y));
+    return clamp(Math.round(src[sy * width + sx]));
+  };
+
+  const windowSize = (2 * radius + 1) * (2 * radius + 1);
+  const half = Math.floor(windowSize / 2);
+
+  for (let y = 0; y < height; y++) {
+    histogram.fill(0);
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        histogram[sample(dx, y + dy)]++;
+      }
+    }
+
+    for (let x = 0; x < width; x++) {
+      if (x > 0) {
+        for (let dy = -radius; dy <= radius; dy++) {
+          histogram[sample(x - radius - 1, y + dy)]--;
+          histogram[sample(x + radius, y + dy)]++;
+        }
+      }
+
+      let count = 0;
+      let value = 0;
+      for (; value < 256; value++) {
+        count += histogram[value];
+        if (count > half) break;
+      }
+      out[y * width + x] = value;
+    }
+  }
+
+  return out;
+};
+
+/**
+ * Bilateral blur. The radius is capped because the filter is O(r²) per pixel.
+ */
+export const bilateralBlur = (
+  src: Float32Array,
+  width: number,
+  height: number,
+  kernelSize: number,
+  sigmaColor: number
+): Float32Array => {
+  const radius = Math.min(7, (toOddKernel(kernelSize) - 1) / 2);
+  const sigmaSpace = Math.max(radius / 2, 1);
+  const out = new Float32Array(src.length);
+
+  const spatial = new Float32Array((2 * radius + 1) * (2 * radius + 1));
+  for (let dy = -radius, i = 0; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++, i++) {
+      spatial[i] = Math.exp(-(dx * dx + dy * dy) / (2 * sigmaSpace * sigmaSpace));
+    }
+  }
+
+  const range = new Float32Array(256);
+  const colorSigma = Math.max(sigmaColor, 1);
+  for (let d = 0; d < 256; d++) {
+    range[d] = Math.exp(-(d * d) / (2 * colorSigma * colorSigma));
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = src[y * width + x];
+      let acc = 0;
+      let weights = 0;
+      for (let dy = -radius, i = 0; dy <= radius; dy++) {
+        const sy = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -radius; dx <= radius; dx++, i++) {
+          const sx = Math.min(width - 1, Math.max(0, x + dx));
+          const value = src[sy * width + sx];
+          const weight = spatial[i] * range[Math.min(255, Math.round(Math.abs(value - center)))];
+          acc += value * weight;
+          weights += weight;
+        }
+      }
+      out[y * width + x] = acc / weights;
+    }
+  }
+
+  return out;
+};
+
+/**
+ * Edge-preserving smoothing with the recursive domain transform filter,
+ * the same filter OpenCV's edgePreservingFilter/pencilSketch use.
+ */
+export const edgePreservingFilter = (
+  src: Float32Array,
+  width: number,
+  height: number,
+  sigmaS: number,
+  sigmaR: number,
+  iterations = 3
+): Float32Array => {
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) {
+    out[i] = src[i] / 255;
+  }
+
+  const ratio = sigmaS / Math.max(sigmaR, 0.001);
+
+  // Domain transform derivatives, computed once on the input image
+  const dHorizontal = new Float32Array(src.length);
+  const dVertical = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      dHorizontal[i] = x < width - 1 ? 1 + ratio * Math.abs(out[i + 1] - out[i]) : 1;
+      dVertical[i] = y < height - 1 ? 1 + ratio * Math.abs(out[i + width] - out[i]) : 1;
+    }
+  }
+
+  for (let n = 0; n < iterations; n++) {
+    const sigmaH = sigmaS * Math.sqrt(3) * Math.pow(2, iterations - n - 1) / Math.sqrt(Math.pow(4, iterations) - 1);
+    const a = Math.exp(-Math.SQRT2 / sigmaH);
+
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      for (let x = 1; x < width; x++) {
+        const w = Math.pow(a, dHorizontal[row + x - 1]);
+        out[row + x] += w * (out[row + x - 1] - out[row + x]);
+      }
+      for (let x = width - 2; x >= 0; x--) {
+        const w = Math.pow(a, dHorizontal[row + x]);
+        out[row + x] += w * (out[row + x + 1] - out[row + x]);
+      }
+    }
+
+    for (let x = 0; x < width; x++) {
+      for (let y = 1; y < height; y++) {
+        const i = y * width + x;
+        const w = Math.pow(a, dVertical[i - width]);
+        out[i] += w * (out[i - width] - out[i]);
+      }
+      for (let y = height - 2; y >= 0; y--) {
+        const i = y * width + x;
+        const w = Math.pow(a, dVertical[i]);
+        out[i] += w * (out[i + width] - out[i]);
+      }
+    }
+  }
+
+  for (let i = 0; i < out.length; i++) {
+    out[i] *= 255;
+  }
+  return out;
+};
+
+/**
+ * Color-dodge blend of the grayscale base with the blurred negative
+ */
+export const colorDodge = (base: Float32Array, blend: Float32Array): Float32Array => {
+  const out = new Float32Array(base.length);
+  for (let i = 0; i < base.length; i++) {
+    out[i] = blend[i] >= 255 ? 255 : clamp((base[i] * 255) / (255 - blend[i]));
+  }
+  return out;
+};
+
+/**
+ * Linear contrast around mid-gray plus a brightness offset
+ */
+export const adjustContrastBrightness = (src: Float32Array, contrast: number, brightness: number): Float32Array => {
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) {
+    out[i] = clamp((src[i] - 128) * contrast + 128 + brightness);
+  }
+  return out;
+};
+
+/**
+ * Darken the sketch with the original tones, weighted by shade_factor
+ */
+export const applyShading = (sketch: Float32Array, tone: Float32Array, shadeFactor: number): Float32Array => {
+  const out = new Float32Array(sketch.length);
+  const factor = clamp(shadeFactor, 0, 1);
+  for (let i = 0; i < sketch.length; i++) {
+    const shaded = (sketch[i] * tone[i]) / 255;
+    out[i] = sketch[i] * (1 - factor) + shaded * factor;
+  }
+  return out;
+};
+
+const mix = (a: Float32Array, b: Float32Array, amount: number): Float32Array => {
+  const out = new Float32Array(a.length);
+  const t = clamp(amount, 0, 1);
+  for (let i = 0; i < a.length; i++) {
+    out[i] = a[i] * (1 - t) + b[i] * t;
+  }
+  return out;
+};
+
+const unsharpMask = (src: Float32Array, width: number, height: number, amount: number): Float32Array => {
+  const blurred = gaussianBlur(src, width, height, 3);
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) {
+    out[i] = clamp(src[i] + (src[i] - blurred[i]) * amount);
+  }
+  return out;
+};
+
+// Deterministic per-pixel noise so repeated renders of the same image match
+const grain = (x: number, y: number) => {
+  const n = Math.sin(x * 12.9898 + y * 78.233) * 43758.5453;
+  return n - Math.floor(n);
+};
+
+const pencilTexture = (src: Float32Array, width: number, height: number, strength: number): Float32Array => {
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const darkness = 1 - src[i] / 255;
+      // Average along the diagonal to get hatch-like strokes instead of salt and pepper
+      const stroke = (grain(x, y) + grain(x - 1, y - 1) + grain(x + 1, y + 1)) / 3 - 0.5;
+      out[i] = clamp(src[i] - stroke * 120 * strength * (0.25 + darkness));
+    }
+  }
+  return out;
+};
+
+const blur = (
+  src: Float32Array,
+  width: number,
+  height: number,
+  config: Required<SketchConfig>,
+  kernelSize: number
+): Float32Array => {
+  switch (config.blur_type) {
+    case 'median':
+      return medianBlur(src, width, height, kernelSize);
+    case 'bilateral':
+      return bilateralBlur(src, width, height, kernelSize, config.sigma_r * 255 * 4);
+    case 'gaussian':
+    default:
+      return gaussianBlur(src, width, height, kernelSize);
+  }
+};
+
+/**
+ * Run the sketch pipeline for a method and return grayscale RGBA pixels
+ */
+export const renderSketchPixels = (image: SketchPixels, options: SketchRenderOptions): Uint8ClampedArray => {
+  const { width, height } = image;
+  const config = { ...DEFAULT_SKETCH_CONFIG, ...options.config };
+  const scale = options.scale ?? 1;
+
+  const kernelSize = toOddKernel(config.kernel_size * scale);
+  const sigmaS = Math.max(1, config.sigma_s * scale);
+  const sigmaR = config.sigma_r;
+
+  let gray = toGrayscale(image.data, width, height);
+
+  if (options.method !== SketchMethod.BASIC && config.edge_preserve) {
+    gray = edgePreservingFilter(gray, width, height, sigmaS, sigmaR);
+  }
+
+  const blurred = blur(invert(gray), width, height, config, kernelSize);
+  let sketch = colorDodge(gray, blurred);
+
+  if (options.method !== SketchMethod.BASIC) {
+    sketch = applyShading(sketch, gray, config.shade_factor);
+
+    if (config.texture_enhance) {
+      sketch = unsharpMask(sketch, width, height, 1);
+    }
+
+    const smoothingFactor = config.smoothing_factor;
+    if (smoothingFactor > 0) {
+      sketch = mix(sketch, gaussianBlur(sketch, width, height, 3), smoothingFactor);
+    }
+  }
+
+  if (options.method === SketchMethod.ARTISTIC) {
+    sketch = pencilTexture(sketch, width, height, Math.max(config.shade_factor, 0.05) * 4);
+  }
+
+  sketch = adjustContrastBrightness(sketch, config.contrast, config.brightness);
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, p = 0; i < sketch.length; i++, p += 4) {
+    out[p] = out[p + 1] = out[p + 2] = sketch[i];
+    out[p + 3] = 255;
+  }
+  return out;
+};
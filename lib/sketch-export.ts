@@ -0,0 +1,301 @@
+/**
+ * Client-side conversion of finished sketches to other formats
+ *
+ * Images are re-encoded through a canvas. DPI is written into PNG (pHYs) and
+ * JPEG (JFIF) files and decides the page size of PDFs; WebP and AVIF have no
+ * standard field for it.
+ */
+
+import { SketchFile } from '@/types';
+import { downscaleImage } from '@/lib/image';
+import { updateCrc32 } from '@/lib/zip';
+import { fetchPresigned } from '@/lib/presigned-urls';
+
+export type ExportImageFormat = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+export type ExportFormat = ExportImageFormat | 'application/pdf';
+export type PdfPageSize = 'fit' | 'a4' | 'letter';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0 to 1, ignored for PNG
+  quality?: number;
+  dpi?: number;
+  // Long edge in pixels; larger sketches are scaled down
+  maxDimension?: number;
+  // PDF only
+  pageSize?: PdfPageSize;
+  captions?: boolean;
+}
+
+export interface ExportedSketch {
+  blob: Blob;
+  extension: string;
+}
+
+export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string; extension: string; lossy: boolean }[] = [
+  { value: 'image/png', label: 'PNG', extension: 'png', lossy: false },
+  { value: 'image/jpeg', label: 'JPEG', extension: 'jpg', lossy: true },
+  { value: 'image/webp', label: 'WebP', extension: 'webp', lossy: true },
+  { value: 'image/avif', label: 'AVIF', extension: 'avif', lossy: true },
+  { value: 'application/pdf', label: 'PDF', extension: 'pdf', lossy: true },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: Required<ExportOptions> = {
+  format: 'image/png',
+  quality: 0.92,
+  dpi: 300,
+  maxDimension: 0,
+  pageSize: 'fit',
+  captions: true,
+};
+
+const getExtension = (format: ExportFormat) =>
+  EXPORT_FORMAT_OPTIONS.find(option => option.value === format)?.extension ?? 'png';
+
+const encoderSupport = new Map<string, Promise<boolean>>();
+
+/**
+ * Check whether the browser's canvas can encode a format; unsupported types come back as PNG
+ */
+export const isExportFormatSupported = (format: ExportFormat): Promise<boolean> => {
+  if (format === 'application/pdf' || format === 'image/png') return Promise.resolve(true);
+  if (typeof OffscreenCanvas === 'undefined') return Promise.resolve(false);
+
+  if (!encoderSupport.has(format)) {
+    const canvas = new OffscreenCanvas(1, 1);
+    encoderSupport.set(
+      format,
+      canvas.convertToBlob({ type: format }).then(blob => blob.type === format).catch(() => false)
+    );
+  }
+  return encoderSupport.get(format) as Promise<boolean>;
+};
+
+/**
+ * Add a pHYs chunk right after IHDR, replacing one the encoder may have written
+ */
+const setPngDpi = async (blob: Blob, dpi: number) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  // The signature is 8 bytes and IHDR always comes first, 25 bytes long
+  const ihdrEnd = 8 + 25;
+
+  const chunks: Uint8Array[] = [bytes.subarray(0, ihdrEnd)];
+  for (let offset = ihdrEnd; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type !== 'pHYs') chunks.push(bytes.subarray(offset, offset + 12 + length));
+    offset += 12 + length;
+  }
+
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const phys = new Uint8Array(21);
+  const physView = new DataView(phys.buffer);
+  physView.setUint32(0, 9);
+  phys.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  physView.setUint32(8, pixelsPerMeter);
+  physView.setUint32(12, pixelsPerMeter);
+  phys[16] = 1; // Unit: metre
+  physView.setUint32(17, updateCrc32(0, phys.subarray(4, 17)));
+
+  chunks.splice(1, 0, phys);
+  return new Blob(chunks, { type: 'image/png' });
+};
+
+/**
+ * Set the density in the JFIF header, adding the header when the encoder left it out
+ */
+const setJpegDpi = async (blob: Blob, dpi: number) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const density = Math.min(0xffff, Math.round(dpi));
+  const hasJfif = bytes[2] === 0xff && bytes[3] === 0xe0
+    && String.fromCharCode(...bytes.subarray(6, 10)) === 'JFIF';
+
+  if (hasJfif) {
+    const view = new DataView(bytes.buffer);
+    bytes[13] = 1; // Units: dots per inch
+    view.setUint16(14, density);
+    view.setUint16(16, density);
+    return new Blob([bytes], { type: 'image/jpeg' });
+  }
+
+  const app0 = new Uint8Array(18);
+  const view = new DataView(app0.buffer);
+  app0.set([0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x01]);
+  view.setUint16(12, density);
+  view.setUint16(14, density);
+  return new Blob([bytes.subarray(0, 2), app0, bytes.subarray(2)], { type: 'image/jpeg' });
+};
+
+const fetchSketch = async (file: SketchFile) => {
+  if (!file.sketchUrl) {
+    throw new Error(`${file.name} has no sketch to export`);
+  }
+  const response = await fetchPresigned(file.sketchKey, file.sketchUrl);
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  return response.blob();
+};
+
+/**
+ * Re-encode a sketch as an image
+ */
+const encodeSketch = async (file: SketchFile, format: ExportImageFormat, options: ExportOptions) => {
+  const source = await fetchSketch(file);
+  const { blob, width, height } = await downscaleImage(
+    source,
+    options.maxDimension || Number.POSITIVE_INFINITY,
+    format,
+    options.quality,
+    // JPEG has no alpha channel, transparent areas would turn black
+    format === 'image/jpeg' ? '#ffffff' : undefined
+  );
+
+  if (blob.type !== format) {
+    throw new Error(`This browser cannot encode ${getExtension(format).toUpperCase()} images`);
+  }
+  return { blob, width, height };
+};
+
+/**
+ * Convert one sketch to an image format
+ */
+export const exportSketchImage = async (file: SketchFile, options: ExportOptions): Promise<ExportedSketch> => {
+  if (options.format === 'application/pdf') {
+    return { blob: await exportSketchesAsPdf([file], options), extension: 'pdf' };
+  }
+
+  let { blob } = await encodeSketch(file, options.format, options);
+  if (options.dpi && options.format === 'image/png') blob = await setPngDpi(blob, options.dpi);
+  if (options.dpi && options.format === 'image/jpeg') blob = await setJpegDpi(blob, options.dpi);
+
+  return { blob, extension: getExtension(options.format) };
+};
+
+// Page sizes in points
+const PAGE_SIZES: Record<Exclude<PdfPageSize, 'fit'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+};
+const PAGE_MARGIN = 36;
+const CAPTION_SIZE = 10;
+const CAPTION_BAND = 28;
+
+// The standard Helvetica font only covers Latin-1, other characters are replaced
+const escapePdfText = (text: string) =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * Place sketches on the pages of one PDF, one per page
+ */
+export const exportSketchesAsPdf = async (
+  files: SketchFile[],
+  options: ExportOptions,
+  onProgress?: (current: number, total: number) => void
+): Promise<Blob> => {
+  const { dpi = DEFAULT_EXPORT_OPTIONS.dpi, pageSize = 'fit', captions = true } = options;
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Catalog, page tree and font come first; each page adds a page, contents and image object
+  const pageIds = files.map((_, index) => 4 + index * 3);
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${files.length} >>\nendobj\n`);
+  startObject(3);
+  write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+
+  for (const [index, file] of files.entries()) {
+    onProgress?.(index + 1, files.length);
+
+    // PDF viewers decode JPEG natively, so every page image is embedded as one
+    const { blob, width, height } = await encodeSketch(file, 'image/jpeg', {
+      ...options,
+      quality: options.quality ?? DEFAULT_EXPORT_OPTIONS.quality,
+    });
+    const jpeg = new Uint8Array(await blob.arrayBuffer());
+
+    const captionBand = captions ? CAPTION_BAND : 0;
+    const imageWidth = (width / dpi) * 72;
+    const imageHeight = (height / dpi) * 72;
+
+    let pageWidth: number;
+    let pageHeight: number;
+    let drawWidth = imageWidth;
+    let drawHeight = imageHeight;
+    if (pageSize === 'fit') {
+      pageWidth = imageWidth;
+      pageHeight = imageHeight + captionBand;
+    } else {
+      // Portrait or landscape, whichever suits the sketch
+      const [short, long] = PAGE_SIZES[pageSize];
+      [pageWidth, pageHeight] = width > height ? [long, short] : [short, long];
+      const scale = Math.min(
+        1,
+        (pageWidth - PAGE_MARGIN * 2) / imageWidth,
+        (pageHeight - PAGE_MARGIN * 2 - captionBand) / imageHeight
+      );
+      drawWidth = imageWidth * scale;
+      drawHeight = imageHeight * scale;
+    }
+    const x = (pageWidth - drawWidth) / 2;
+    const y = captionBand + (pageHeight - captionBand - drawHeight) / 2;
+
+    let content = `q ${formatNumber(drawWidth)} 0 0 ${formatNumber(drawHeight)} ${formatNumber(x)} ${formatNumber(y)} cm /Im1 Do Q\n`;
+    if (captions) {
+      const captionX = pageSize === 'fit' ? 8 : PAGE_MARGIN;
+      const captionY = (captionBand - CAPTION_SIZE) / 2 + (pageSize === 'fit' ? 0 : y - captionBand);
+      content += `BT /F1 ${CAPTION_SIZE} Tf ${formatNumber(captionX)} ${formatNumber(captionY)} Td (${escapePdfText(file.name)}) Tj ET\n`;
+    }
+    // Latin-1, so caption bytes match the WinAnsi font encoding
+    const contentBytes = Uint8Array.from(content, char => char.charCodeAt(0));
+
+    const pageId = pageIds[index];
+    startObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}] ` +
+      `/Resources << /Font << /F1 3 0 R >> /XObject << /Im1 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`
+    );
+    startObject(pageId + 1);
+    write(`<< /Length ${contentBytes.length} >>\nstream\n`);
+    write(contentBytes);
+    write('\nendstream\nendobj\n');
+    startObject(pageId + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB ` +
+      `/BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+    );
+    write(jpeg);
+    write('\nendstream\nendobj\n');
+  }
+
+  const objectCount = 4 + files.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
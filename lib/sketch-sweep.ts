@@ -0,0 +1,115 @@
+import { NumberSketchParameter, SketchConfig, SketchMethod, getSketchParameters } from '@/types';
+
+/**
+ * Grids of config variants for finding good parameter values side by side
+ */
+
+export type SweepParameterKey = NumberSketchParameter['key'];
+
+export interface SweepAxis {
+  key: SweepParameterKey;
+  min: number;
+  max: number;
+  steps: number;
+}
+
+export interface SweepCell {
+  // Position in the grid; row is always 0 for a single-axis sweep
+  row: number;
+  column: number;
+  config: SketchConfig;
+}
+
+export interface SweepGrid {
+  columns: SweepAxis & { values: number[] };
+  rows: (SweepAxis & { values: number[] }) | null;
+  cells: SweepCell[];
+}
+
+// Values per axis; two axes at this size already mean 36 renders
+export const MIN_SWEEP_STEPS = 2;
+export const MAX_SWEEP_STEPS = 6;
+export const DEFAULT_SWEEP_STEPS = 4;
+
+/**
+ * Numeric parameters the method reads, the only ones worth sweeping
+ */
+export const getSweepParameters = (method: SketchMethod) =>
+  getSketchParameters(method).filter((parameter): parameter is NumberSketchParameter => parameter.type === 'number');
+
+/**
+ * An axis over a parameter's whole range
+ */
+export const getDefaultSweepAxis = (parameter: NumberSketchParameter): SweepAxis => ({
+  key: parameter.key,
+  min: parameter.min,
+  max: parameter.max,
+  steps: DEFAULT_SWEEP_STEPS,
+});
+
+const getParameter = (method: SketchMethod, key: SweepParameterKey) => {
+  const parameter = getSweepParameters(method).find(candidate => candidate.key === key);
+  if (!parameter) {
+    throw new Error(`${key} cannot be swept with the ${method} method`);
+  }
+  return parameter;
+};
+
+/**
+ * Evenly spaced values from min to max, snapped to the parameter's step
+ *
+ * Values that snap onto each other are only kept once, so a narrow range can
+ * give fewer values than steps.
+ */
+export const getSweepValues = (parameter: NumberSketchParameter, axis: SweepAxis) => {
+  const min = Math.max(parameter.min, Math.min(axis.min, axis.max));
+  const max = Math.min(parameter.max, Math.max(axis.min, axis.max));
+  const steps = Math.min(MAX_SWEEP_STEPS, Math.max(MIN_SWEEP_STEPS, Math.round(axis.steps)));
+
+  const values: number[] = [];
+  for (let index = 0; index < steps; index++) {
+    const raw = min + ((max - min) * index) / (steps - 1);
+    const snapped = parameter.min + Math.round((raw - parameter.min) / parameter.step) * parameter.step;
+    const value = Number(Math.min(parameter.max, Math.max(parameter.min, snapped)).toFixed(parameter.precision));
+    if (!values.includes(value)) values.push(value);
+  }
+  return values;
+};
+
+/**
+ * Every combination of the axis values on top of the base config, row by row
+ */
+export const buildSweepGrid = (
+  method: SketchMethod,
+  baseConfig: SketchConfig | undefined,
+  columns: SweepAxis,
+  rows?: SweepAxis | null
+): SweepGrid => {
+  if (rows && rows.key === columns.key) {
+    throw new Error('Pick two different parameters to sweep');
+  }
+
+  const columnValues = getSweepValues(getParameter(method, columns.key), columns);
+  const rowValues = rows ? getSweepValues(getParameter(method, rows.key), rows) : [];
+
+  const cells: SweepCell[] = [];
+  (rows ? rowValues : [undefined]).forEach((rowValue, row) => {
+    columnValues.forEach((columnValue, column) => {
+      cells.push({
+        row,
+        column,
+        config: {
+          ...baseConfig,
+          [columns.key]: columnValue,
+          ...(rows && { [rows.key]: rowValue }),
+        },
+      });
+    });
+  });
+
+  return {
+    columns: { ...columns, values: columnValues },
+    rows: rows ? { ...rows, values: rowValues } : null,
+    cells,
+  };
+};
@@ -0,0 +1,125 @@
+import { SKETCH_PARAMETERS, SketchConfig, SketchFile, SketchMethod, SketchVersion } from '@/types';
+
+/**
+ * Outputs of one original kept on its card
+ *
+ * The card's own sketch fields are the version on show; `versions` holds the
+ * others, so code that only knows about the shown sketch keeps working.
+ */
+
+export interface ConfigDifference {
+  key: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * The version on show, once the file has an output
+ */
+export const getShownVersion = (file: SketchFile): SketchVersion | null => {
+  if (file.status !== 'completed' || !file.sketchUrl) return null;
+
+  return {
+    id: file.versionId ?? file.id,
+    method: file.method,
+    config: file.config,
+    sketchKey: file.sketchKey,
+    sketchUrl: file.sketchUrl,
+    createdAt: file.createdAt ?? '',
+    cached: file.cached,
+  };
+};
+
+/**
+ * Every version of the file, oldest first
+ */
+export const listVersions = (file: SketchFile): SketchVersion[] => {
+  const shown = getShownVersion(file);
+  const versions = [...(file.versions ?? []), ...(shown ? [shown] : [])];
+  return versions.sort((a, b) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0));
+};
+
+/**
+ * Put the shown output aside before the file is processed again
+ */
+export const archiveShownVersion = (file: SketchFile): SketchVersion[] => {
+  const shown = getShownVersion(file);
+  return shown ? [...(file.versions ?? []), shown] : file.versions ?? [];
+};
+
+/**
+ * Show another version, putting the current one aside
+ */
+export const showVersion = (file: SketchFile, versionId: string): SketchFile => {
+  const version = file.versions?.find(candidate => candidate.id === versionId);
+  if (!version) return file;
+
+  return {
+    ...file,
+    versionId: version.id,
+    method: version.method,
+    config: version.config,
+    sketchKey: version.sketchKey,
+    sketchUrl: version.sketchUrl,
+    createdAt: version.createdAt,
+    cached: version.cached,
+    status: 'completed',
+    error: undefined,
+    progress: undefined,
+    jobId: undefined,
+    versions: archiveShownVersion(file).filter(candidate => candidate.id !== versionId),
+  };
+};
+
+/**
+ * Drop a version; deleting the shown one brings up the newest of the rest
+ *
+ * Returns null when no version is left.
+ */
+export const removeVersion = (file: SketchFile, versionId: string): SketchFile | null => {
+  const shown = getShownVersion(file);
+  if (shown?.id !== versionId) {
+    return { ...file, versions: file.versions?.filter(candidate => candidate.id !== versionId) };
+  }
+
+  const newest = listVersions(file).filter(candidate => candidate.id !== versionId).pop();
+  if (!newest) return null;
+
+  const restored = showVersion(file, newest.id);
+  return { ...restored, versions: restored.versions?.filter(candidate => candidate.id !== versionId) };
+};
+
+const formatConfigValue = (value: SketchConfig[keyof SketchConfig]) =>
+  typeof value === 'boolean' ? (value ? 'On' : 'Off') : String(value);
+
+/**
+ * Settings that differ between two versions, including the method
+ *
+ * Unset parameters count as their default, so an explicit default is no difference.
+ */
+export const diffVersions = (
+  before: { method: SketchMethod; config?: SketchConfig },
+  after: { method: SketchMethod; config?: SketchConfig }
+): ConfigDifference[] => {
+  const differences: ConfigDifference[] = [];
+
+  if (before.method !== after.method) {
+    differences.push({ key: 'method', label: 'Method', before: before.method, after: after.method });
+  }
+
+  SKETCH_PARAMETERS.forEach(parameter => {
+    const beforeValue = before.config?.[parameter.key] ?? parameter.default;
+    const afterValue = after.config?.[parameter.key] ?? parameter.default;
+    if (beforeValue === afterValue) return;
+
+    differences.push({
+      key: parameter.key,
+      label: parameter.label,
+      before: formatConfigValue(beforeValue),
+      after: formatConfigValue(afterValue),
+    });
+  });
+
+  return differences;
+};
@@ -0,0 +1,134 @@
+import { SketchMethod, SketchConfig } from '@/types';
+
+// Messages exchanged with workers/sketch.worker.ts
+export interface SketchWorkerRequest {
+  id: number;
+  source: Blob;
+  method: SketchMethod;
+  config?: SketchConfig;
+  maxDimension?: number;
+  sourceScale?: number;
+  outputType?: string;
+  quality?: number;
+}
+
+export type SketchWorkerResponse =
+  | { id: number; success: true; blob: Blob; width: number; height: number; duration: number }
+  | { id: number; success: false; error: string };
+
+export interface LocalRenderOptions {
+  method: SketchMethod;
+  config?: SketchConfig;
+  maxDimension?: number;
+  // Set when the source was already downscaled, so spatial parameters stay true to the original
+  sourceScale?: number;
+  outputType?: string;
+  quality?: number;
+  signal?: AbortSignal;
+}
+
+export interface LocalRenderResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  duration: number;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, {
+  resolve: (result: LocalRenderResult) => void;
+  reject: (error: Error) => void;
+}>();
+
+/**
+ * Check whether the browser can run the local sketch engine
+ */
+export const isLocalRenderingSupported = () =>
+  typeof window !== 'undefined' &&
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/sketch.worker.ts', import.meta.url));
+
+  worker.onmessage = (event: MessageEvent<SketchWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return; // Cancelled while rendering
+
+    pending.delete(response.id);
+    if (response.success) {
+      const { blob, width, height, duration } = response;
+      request.resolve({ blob, width, height, duration });
+    } else {
+      request.reject(new Error(response.error));
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error('Sketch worker error:', event.message);
+    const error = new Error(event.message || 'Sketch worker crashed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+};
+
+/**
+ * Render a sketch of an image entirely in the browser
+ */
+export const renderSketchLocally = (
+  source: Blob,
+  options: LocalRenderOptions
+): Promise<LocalRenderResult> => {
+  if (!isLocalRenderingSupported()) {
+    return Promise.reject(new Error('Local sketch rendering is not supported in this browser'));
+  }
+
+  if (options.signal?.aborted) {
+    return Promise.reject(new Error('Rendering was aborted'));
+  }
+
+  const id = nextRequestId++;
+
+  return new Promise<LocalRenderResult>((resolve, reject) => {
+    // The worker cannot be interrupted mid-render, so an abort just drops the result
+    const handleAbort = () => {
+      if (pending.delete(id)) {
+        reject(new Error('Rendering was aborted'));
+      }
+    };
+    const cleanup = () => options.signal?.removeEventListener('abort', handleAbort);
+
+    pending.set(id, {
+      resolve: (result) => {
+        cleanup();
+        resolve(result);
+      },
+      reject: (error) => {
+        cleanup();
+        reject(error);
+      },
+    });
+    options.signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const request: SketchWorkerRequest = {
+      id,
+      source,
+      method: options.method,
+      config: options.config,
+      maxDimension: options.maxDimension,
+      sourceScale: options.sourceScale,
+      outputType: options.outputType,
+      quality: options.quality,
+    };
+    getWorker().postMessage(request);
+  });
+};
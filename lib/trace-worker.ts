@@ -0,0 +1,95 @@
+import type { TraceOptions, TraceResult } from '@/lib/trace';
+import { isLocalRenderingSupported } from '@/lib/sketch-worker';
+
+// Messages exchanged with workers/trace.worker.ts
+export interface TraceWorkerRequest {
+  id: number;
+  source: Blob;
+  options: TraceOptions;
+  maxDimension?: number;
+}
+
+export type TraceWorkerResponse =
+  | ({ id: number; success: true; duration: number } & TraceResult)
+  | { id: number; success: false; error: string };
+
+export interface SketchTraceResult extends TraceResult {
+  duration: number;
+}
+
+// Tracing cost grows with the pixel count, past this the sketch is traced downscaled
+export const DEFAULT_TRACE_MAX_DIMENSION = 2048;
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, {
+  resolve: (result: SketchTraceResult) => void;
+  reject: (error: Error) => void;
+}>();
+
+// Tracing needs the same worker and OffscreenCanvas support as local rendering
+export const isTracingSupported = isLocalRenderingSupported;
+
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/trace.worker.ts', import.meta.url));
+
+  worker.onmessage = (event: MessageEvent<TraceWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return; // Cancelled while tracing
+
+    pending.delete(response.id);
+    if (response.success) {
+      const { pathData, pathCount, width, height, duration } = response;
+      request.resolve({ pathData, pathCount, width, height, duration });
+    } else {
+      request.reject(new Error(response.error));
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error('Trace worker error:', event.message);
+    const error = new Error(event.message || 'Trace worker crashed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+};
+
+/**
+ * Trace a sketch into outlines in a worker
+ */
+export const traceSketch = (
+  source: Blob,
+  options: TraceOptions,
+  { maxDimension = DEFAULT_TRACE_MAX_DIMENSION, signal }: { maxDimension?: number; signal?: AbortSignal } = {}
+): Promise<SketchTraceResult> => {
+  if (!isTracingSupported()) {
+    return Promise.reject(new Error('Tracing is not supported in this browser'));
+  }
+
+  if (signal?.aborted) {
+    return Promise.reject(new Error('Tracing was aborted'));
+  }
+
+  const id = nextRequestId++;
+
+  return new Promise<SketchTraceResult>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+
+    // The worker cannot be interrupted mid-trace, so an abort just drops the result
+    signal?.addEventListener('abort', () => {
+      if (pending.delete(id)) {
+        reject(new Error('Tracing was aborted'));
+      }
+    });
+
+    const request: TraceWorkerRequest = { id, source, options, maxDimension };
+    getWorker().postMessage(request);
+  });
+};
@@ -0,0 +1,305 @@
+import type { SketchPixels } from '@/lib/sketch-engine';
+
+/**
+ * Bitmap to SVG tracing for completed sketches.
+ *
+ * The sketch is thresholded into a mask, specks are dropped, and the edges
+ * between dark and light pixels are followed into closed outlines. Outlines
+ * are simplified to remove the pixel staircase and optionally rounded into
+ * quadratic curves.
+ */
+
+export type TraceMode = 'fill' | 'stroke';
+
+export interface TraceOptions {
+  // Pixels darker than this (0-255) are traced
+  threshold: number;
+  // 0 keeps straight segments, 1 rounds every corner
+  smoothing: number;
+  // Dark specks and light holes smaller than this many pixels are dropped
+  minSpeckle: number;
+  // Ratio between the traced size and the original size; coordinates are scaled back
+  scale?: number;
+}
+
+export interface TraceResult {
+  // Every outline in one path, so holes stay cut out of the shapes around them
+  pathData: string;
+  pathCount: number;
+  width: number;
+  height: number;
+}
+
+export interface SvgStyle {
+  // Filled shapes, or outlines only for cutters and plotters
+  mode: TraceMode;
+  color?: string;
+  strokeWidth?: number;
+}
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = {
+  threshold: 128,
+  smoothing: 0.5,
+  minSpeckle: 8,
+};
+
+type Point = [number, number];
+
+// Enough to flatten a one-pixel staircase (corners 0.71px off) without losing one-pixel-wide lines
+const SIMPLIFY_TOLERANCE = 0.75;
+
+/**
+ * Threshold RGBA pixels into a mask of dark pixels, treating transparency as white
+ */
+const toMask = ({ data, width, height }: SketchPixels, threshold: number) => {
+  const mask = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < mask.length; i++, p += 4) {
+    const alpha = data[p + 3] / 255;
+    const luminance = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    mask[i] = luminance * alpha + 255 * (1 - alpha) < threshold ? 1 : 0;
+  }
+  return mask;
+};
+
+/**
+ * Flip regions of one value that are smaller than minArea
+ *
+ * Dark pixels touching at a corner belong together, so thin diagonal strokes
+ * count as one region; light regions only connect through their sides.
+ */
+const removeSpeckles = (mask: Uint8Array, width: number, height: number, value: number, minArea: number) => {
+  const visited = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  const region: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (visited[start] || mask[start] !== value) continue;
+
+    region.length = 0;
+    stack.push(start);
+    visited[start] = 1;
+    let touchesBorder = false;
+
+    while (stack.length > 0) {
+      const index = stack.pop() as number;
+      region.push(index);
+      const x = index % width;
+      const y = (index - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder = true;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx === 0 && dy === 0) || (value === 0 && dx !== 0 && dy !== 0)) continue;
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+          const neighbour = ny * width + nx;
+          if (!visited[neighbour] && mask[neighbour] === value) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    // Light regions touching the border are background, not holes
+    if (region.length < minArea && !(value === 0 && touchesBorder)) {
+      for (const index of region) mask[index] = 1 - value;
+    }
+  }
+};
+
+// Directions on the corner lattice: right, down, left, up
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+/**
+ * Follow the edges between dark and light pixels into closed outlines
+ *
+ * Edges run clockwise around dark pixels, so outer outlines and holes wind
+ * in opposite directions. Where two dark pixels only touch at a corner the
+ * tracer turns left and joins them, the same way specks are measured.
+ */
+const traceOutlines = (mask: Uint8Array, width: number, height: number): Point[][] => {
+  const stride = width + 1;
+  // Bit d is set when an edge leaves the lattice point in direction d
+  const edges = new Uint8Array(stride * (height + 1));
+  const isDark = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isDark(x, y)) continue;
+      if (!isDark(x, y - 1)) edges[y * stride + x] |= 1;
+      if (!isDark(x + 1, y)) edges[y * stride + x + 1] |= 2;
+      if (!isDark(x, y + 1)) edges[(y + 1) * stride + x + 1] |= 4;
+      if (!isDark(x - 1, y)) edges[(y + 1) * stride + x] |= 8;
+    }
+  }
+
+  const outlines: Point[][] = [];
+  for (let start = 0; start < edges.length; start++) {
+    // A lattice point where two outlines touch starts more than one
+    while (edges[start] !== 0) {
+      const startX = start % stride;
+      const startY = (start - startX) / stride;
+      let x = startX;
+      let y = startY;
+      let direction = Math.log2(edges[start] & -edges[start]);
+      const outline: Point[] = [[startX, startY]];
+
+      for (;;) {
+        edges[y * stride + x] &= ~(1 << direction);
+        x += DX[direction];
+        y += DY[direction];
+        if (x === startX && y === startY) break;
+
+        // Left turn first, then straight on, then right
+        const available = edges[y * stride + x];
+        const next = [(direction + 3) % 4, direction, (direction + 1) % 4].find(d => available & (1 << d));
+        if (next === undefined) break;
+
+        // Only corners are kept, points along a straight run add nothing
+        if (next !== direction) outline.push([x, y]);
+        direction = next;
+      }
+
+      if (outline.length >= 3) outlines.push(outline);
+    }
+  }
+
+  return outlines;
+};
+
+const distanceToSegment = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return Math.hypot(px - ax, py - ay);
+  const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+/**
+ * Douglas-Peucker simplification of an open run of points, ends included
+ */
+const simplifyRun = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 2) return points;
+
+  let farthest = 0;
+  let maxDistance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      farthest = i;
+    }
+  }
+
+  if (maxDistance <= tolerance) return [points[0], points[points.length - 1]];
+  const left = simplifyRun(points.slice(0, farthest + 1), tolerance);
+  const right = simplifyRun(points.slice(farthest), tolerance);
+  return [...left.slice(0, -1), ...right];
+};
+
+/**
+ * Simplify a closed outline by splitting it at the point farthest from its first point
+ */
+const simplifyOutline = (outline: Point[], tolerance: number): Point[] => {
+  const [first] = outline;
+  let farthest = 0;
+  let maxDistance = 0;
+  outline.forEach(([x, y], index) => {
+    const distance = Math.hypot(x - first[0], y - first[1]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      farthest = index;
+    }
+  });
+
+  // Strokes thinner than the tolerance would fold onto one line, so each half keeps its farthest point
+  const simplifyHalf = (points: Point[]) => {
+    const simplified = simplifyRun(points, tolerance);
+    if (simplified.length > 2 || points.length <= 2) return simplified;
+
+    let apex = 1;
+    for (let i = 2; i < points.length - 1; i++) {
+      if (distanceToSegment(points[i], points[0], points[points.length - 1])
+        > distanceToSegment(points[apex], points[0], points[points.length - 1])) apex = i;
+    }
+    return [points[0], points[apex], points[points.length - 1]];
+  };
+
+  const there = simplifyHalf(outline.slice(0, farthest + 1));
+  const back = simplifyHalf([...outline.slice(farthest), first]);
+  return [...there.slice(0, -1), ...back.slice(0, -1)];
+};
+
+const formatCoordinate = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * Path data for a closed outline, rounding corners by the smoothing amount
+ */
+const toPathData = (outline: Point[], smoothing: number, scale: number) => {
+  const point = ([x, y]: Point) => `${formatCoordinate(x / scale)} ${formatCoordinate(y / scale)}`;
+  if (smoothing <= 0 || outline.length < 3) {
+    return `M${outline.map(point).join('L')}Z`;
+  }
+
+  // Each corner becomes a curve between points on its two neighbouring segments
+  const amount = Math.min(1, smoothing) / 2;
+  const lerp = ([ax, ay]: Point, [bx, by]: Point, t: number): Point => [ax + (bx - ax) * t, ay + (by - ay) * t];
+  const count = outline.length;
+
+  let data = '';
+  outline.forEach((corner, index) => {
+    const previous = outline[(index + count - 1) % count];
+    const next = outline[(index + 1) % count];
+    const entry = lerp(corner, previous, amount);
+    const exit = lerp(corner, next, amount);
+    data += `${index === 0 ? 'M' : 'L'}${point(entry)}Q${point(corner)} ${point(exit)}`;
+  });
+  return `${data}Z`;
+};
+
+/**
+ * Trace a sketch bitmap into outlines
+ */
+export const traceBitmap = (pixels: SketchPixels, options: TraceOptions): TraceResult => {
+  const { width, height } = pixels;
+  const scale = options.scale ?? 1;
+
+  const mask = toMask(pixels, options.threshold);
+  if (options.minSpeckle > 1) {
+    const minArea = Math.round(options.minSpeckle * scale * scale);
+    removeSpeckles(mask, width, height, 1, minArea);
+    removeSpeckles(mask, width, height, 0, minArea);
+  }
+
+  const paths = traceOutlines(mask, width, height)
+    .map(outline => simplifyOutline(outline, SIMPLIFY_TOLERANCE))
+    .filter(outline => outline.length >= 3)
+    .map(outline => toPathData(outline, options.smoothing, scale));
+
+  return {
+    pathData: paths.join(''),
+    pathCount: paths.length,
+    width: Math.round(width / scale),
+    height: Math.round(height / scale),
+  };
+};
+
+/**
+ * Wrap traced outlines in a standalone SVG document
+ */
+export const toSvgDocument = ({ pathData, width, height }: TraceResult, style: SvgStyle) => {
+  const color = style.color ?? '#000000';
+  const paint = style.mode === 'stroke'
+    ? `fill="none" stroke="${color}" stroke-width="${style.strokeWidth ?? 1}" stroke-linejoin="round"`
+    : `fill="${color}" fill-rule="evenodd"`;
+
+  const body = pathData ? `<path ${paint} d="${pathData}"/>` : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}">${body}</svg>`;
+};
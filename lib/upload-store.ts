@@ -0,0 +1,119 @@
+import { MultipartUploadPart } from '@/services/file.api';
+
+const DB_NAME = 'imagetosketch';
+const DB_VERSION = 1;
+const STORE_NAME = 'multipart-uploads';
+
+// A multipart upload that can be picked up again after a reload
+export interface StoredMultipartUpload {
+  // Fingerprint of the source file, see getUploadFingerprint
+  id: string;
+  key: string;
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  partSize: number;
+  parts: MultipartUploadPart[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const isIndexedDbAvailable = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to try again, e.g. after the user leaves private browsing
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Identify a file well enough to match it again after a reload
+ */
+export const getUploadFingerprint = (file: File, prefix = '') =>
+  `${prefix}:${file.name}:${file.size}:${file.lastModified}`;
+
+/**
+ * Read the saved state of an interrupted upload
+ */
+export const getStoredUpload = async (id: string): Promise<StoredMultipartUpload | null> => {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    return (await runRequest<StoredMultipartUpload | undefined>('readonly', store => store.get(id))) ?? null;
+  } catch (error) {
+    console.error('Error reading stored upload:', error);
+    return null;
+  }
+};
+
+/**
+ * List every upload that has not completed yet
+ */
+export const listStoredUploads = async (): Promise<StoredMultipartUpload[]> => {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    return await runRequest<StoredMultipartUpload[]>('readonly', store => store.getAll());
+  } catch (error) {
+    console.error('Error listing stored uploads:', error);
+    return [];
+  }
+};
+
+/**
+ * Save upload state; failures only cost the ability to resume
+ */
+export const saveStoredUpload = async (upload: StoredMultipartUpload) => {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await runRequest('readwrite', store => store.put(upload));
+  } catch (error) {
+    console.error('Error saving upload state:', error);
+  }
+};
+
+/**
+ * Forget an upload once it has completed or been discarded
+ */
+export const deleteStoredUpload = async (id: string) => {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await runRequest('readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error('Error deleting upload state:', error);
+  }
+};
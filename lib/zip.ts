@@ -0,0 +1,359 @@
+/**
+ * Minimal ZIP reader and writer for archives handled in the browser
+ *
+ * Only the central directory and the requested entries are read, so large
+ * archives are never loaded into memory as a whole. Stored and deflated
+ * entries are supported, including ZIP64 archives; encrypted entries are not.
+ *
+ * Archives are written as a stream of stored entries: images are compressed
+ * already, and storing them lets each entry be streamed without knowing its
+ * size up front.
+ */
+
+export interface ZipEntry {
+  // Path inside the archive, with forward slashes
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// The end of central directory record is 22 bytes plus a comment of up to 64 KB
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+export const isZipFile = (file: File) =>
+  ['application/zip', 'application/x-zip-compressed'].includes(file.type) || /\.zip$/i.test(file.name);
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const readUint64 = (view: DataView, offset: number) => Number(view.getBigUint64(offset, true));
+
+/**
+ * Locate the central directory from the end of the archive
+ */
+const readDirectoryLocation = async (blob: Blob) => {
+  const searchStart = Math.max(0, blob.size - MAX_EOCD_SEARCH);
+  const tail = await readView(blob, searchStart, blob.size);
+
+  let eocd = -1;
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a valid ZIP archive');
+  }
+
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  // ZIP64 archives keep the real values in a separate record, found through a locator
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.getUint32(locator, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const recordOffset = readUint64(tail, locator + 8);
+    const record = await readView(blob, recordOffset, recordOffset + 56);
+    if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('Corrupt ZIP64 archive');
+    }
+    entryCount = readUint64(record, 32);
+    directorySize = readUint64(record, 40);
+    directoryOffset = readUint64(record, 48);
+  }
+
+  return { entryCount, directorySize, directoryOffset };
+};
+
+/**
+ * List the entries of an archive, directories excluded
+ */
+export const readZipEntries = async (blob: Blob): Promise<ZipEntry[]> => {
+  const { entryCount, directorySize, directoryOffset } = await readDirectoryLocation(blob);
+  const directory = await readView(blob, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let offset = 0;
+  for (let index = 0; index < entryCount; index++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    let compressedSize = directory.getUint32(offset + 20, true);
+    let size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    let localHeaderOffset = directory.getUint32(offset + 42, true);
+
+    const nameStart = directory.byteOffset + offset + 46;
+    const name = decoder.decode(new Uint8Array(directory.buffer, nameStart, nameLength)).replace(/\\/g, '/');
+
+    // Values too large for 32 bits are moved to the ZIP64 extra field, in this order
+    let extra = offset + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const length = directory.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (size === ZIP64_MARKER) {
+          size = readUint64(directory, field);
+          field += 8;
+        }
+        if (compressedSize === ZIP64_MARKER) {
+          compressedSize = readUint64(directory, field);
+          field += 8;
+        }
+        if (localHeaderOffset === ZIP64_MARKER) {
+          localHeaderOffset = readUint64(directory, field);
+        }
+      }
+      extra += 4 + length;
+    }
+
+    if (!name.endsWith('/')) {
+      entries.push({ name, method, compressedSize, size, localHeaderOffset, encrypted: (flags & 0x1) !== 0 });
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+/**
+ * Extract a single entry
+ */
+export const extractZipEntry = async (blob: Blob, entry: ZipEntry, type: string = ''): Promise<Blob> => {
+  if (entry.encrypted) {
+    throw new Error(`${entry.name} is encrypted`);
+  }
+
+  // The local header repeats the name and has its own extra field, which may differ in length
+  const header = await readView(blob, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP entry ${entry.name}`);
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = blob.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    return data.slice(0, data.size, type);
+  }
+  if (entry.method === METHOD_DEFLATED) {
+    const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    const inflated = await new Response(stream).blob();
+    return inflated.slice(0, inflated.size, type);
+  }
+  throw new Error(`${entry.name} uses an unsupported compression method (${entry.method})`);
+};
+
+// An entry to write; open is only called when the entry's turn comes, and name is read after it
+export interface ZipSource {
+  name: string;
+  open: () => Promise<ReadableStream<Uint8Array>>;
+  lastModified?: Date;
+}
+
+export interface ZipWriteOptions {
+  // Called for sources that could not be opened; they are left out of the archive
+  onSkip?: (source: ZipSource, error: unknown) => void;
+  onEntry?: (current: number, total: number, name: string) => void;
+  // Stops the archive with an error, so a partial archive is never saved
+  signal?: AbortSignal;
+}
+
+interface WrittenEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+// Sizes and offsets are 32 bits without ZIP64, which the writer does not produce
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+// General purpose flags: sizes follow the data (bit 3), names are UTF-8 (bit 11)
+const WRITE_FLAGS = 0x0808;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const updateCrc32 = (crc: number, data: Uint8Array) => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, which is what ZIP headers store
+const toDosDateTime = (value: Date) => ({
+  time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+  date: (Math.max(0, value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+});
+
+const createRecord = (length: number) => {
+  const bytes = new Uint8Array(length);
+  return { bytes, view: new DataView(bytes.buffer) };
+};
+
+async function* writeZipEntries(sources: ZipSource[], options: ZipWriteOptions): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const entries: WrittenEntry[] = [];
+  let offset = 0;
+
+  const checkSize = () => {
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error('The archive would be larger than 4 GB, download fewer files at once');
+    }
+  };
+
+  for (const [index, source] of sources.entries()) {
+    options.signal?.throwIfAborted();
+
+    let stream: ReadableStream<Uint8Array>;
+    try {
+      stream = await source.open();
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      options.onSkip?.(source, error);
+      continue;
+    }
+    options.onEntry?.(index + 1, sources.length, source.name);
+
+    if (entries.length >= MAX_ZIP_ENTRIES) {
+      await stream.cancel();
+      throw new Error(`An archive can hold at most ${MAX_ZIP_ENTRIES} files`);
+    }
+
+    const name = encoder.encode(source.name);
+    const { time, date } = toDosDateTime(source.lastModified ?? new Date());
+
+    // CRC and sizes are left empty here and follow the data in a descriptor
+    const header = createRecord(30 + name.length);
+    header.view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    header.view.setUint16(4, 20, true);
+    header.view.setUint16(6, WRITE_FLAGS, true);
+    header.view.setUint16(8, METHOD_STORED, true);
+    header.view.setUint16(10, time, true);
+    header.view.setUint16(12, date, true);
+    header.view.setUint16(26, name.length, true);
+    header.bytes.set(name, 30);
+
+    const entryOffset = offset;
+    yield header.bytes;
+    offset += header.bytes.length;
+
+    let crc = 0;
+    let size = 0;
+    const reader = stream.getReader();
+    try {
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        crc = updateCrc32(crc, chunk.value);
+        size += chunk.value.length;
+        offset += chunk.value.length;
+        checkSize();
+        yield chunk.value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    const descriptor = createRecord(16);
+    descriptor.view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    descriptor.view.setUint32(4, crc, true);
+    descriptor.view.setUint32(8, size, true);
+    descriptor.view.setUint32(12, size, true);
+    yield descriptor.bytes;
+    offset += descriptor.bytes.length;
+
+    entries.push({ name, crc, size, offset: entryOffset, time, date });
+  }
+
+  const directoryOffset = offset;
+  for (const entry of entries) {
+    const record = createRecord(46 + entry.name.length);
+    record.view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    record.view.setUint16(4, 20, true);
+    record.view.setUint16(6, 20, true);
+    record.view.setUint16(8, WRITE_FLAGS, true);
+    record.view.setUint16(10, METHOD_STORED, true);
+    record.view.setUint16(12, entry.time, true);
+    record.view.setUint16(14, entry.date, true);
+    record.view.setUint32(16, entry.crc, true);
+    record.view.setUint32(20, entry.size, true);
+    record.view.setUint32(24, entry.size, true);
+    record.view.setUint16(28, entry.name.length, true);
+    record.view.setUint32(42, entry.offset, true);
+    record.bytes.set(entry.name, 46);
+
+    yield record.bytes;
+    offset += record.bytes.length;
+    checkSize();
+  }
+
+  const end = createRecord(22);
+  end.view.setUint32(0, EOCD_SIGNATURE, true);
+  end.view.setUint16(8, entries.length, true);
+  end.view.setUint16(10, entries.length, true);
+  end.view.setUint32(12, offset - directoryOffset, true);
+  end.view.setUint32(16, directoryOffset, true);
+  yield end.bytes;
+}
+
+/**
+ * Stream a ZIP archive of the given sources, reading one source at a time
+ */
+export const createZipStream = (sources: ZipSource[], options: ZipWriteOptions = {}): ReadableStream<Uint8Array> => {
+  const chunks = writeZipEntries(sources, options);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+};
@@ -0,0 +1,271 @@
+// Offline stand-in for the processing job endpoints and their progress channels.
+//
+//   node scripts/mock-progress-server.mjs [--port=4000] [--no-ws] [--no-sse] [--drop-after=ms]
+//
+// Point NEXT_PUBLIC_BACKEND_URL at it (http://localhost:4000). --no-ws and --no-sse
+// refuse the realtime transports so the polling fallback can be exercised, and
+// --drop-after closes realtime connections after a delay to exercise reconnects.
+// Input keys containing "fail" finish as failed items. Jobs can be paused, resumed and
+// cancelled through POST /api/file/jobs/:id/{pause,resume,cancel}.
+
+import { createServer } from "node:http";
+import { createHash, randomUUID } from "node:crypto";
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((arg) => {
+    const [key, value] = arg.replace(/^--/, "").split("=");
+    return [key, value ?? true];
+  })
+);
+
+const port = Number(args.port || 4000);
+const dropAfter = args["drop-after"] ? Number(args["drop-after"]) : 0;
+const jobs = new Map();
+
+const snapshot = (job) => ({
+  job_id: job.id,
+  status: job.status,
+  total: job.items.length,
+  completed: job.items.filter((item) => item.status === "completed").length,
+  failed: job.items.filter((item) => item.status === "failed").length,
+  items: job.items,
+});
+
+const broadcast = (job, message) => {
+  job.subscribers.forEach((send) => send(message));
+};
+
+const finish = (job, status) => {
+  job.status = status;
+  clearInterval(job.timer);
+  broadcast(job, { type: "status", job_id: job.id, status });
+};
+
+const tick = (job) => {
+  if (job.status === "paused") return;
+
+  const active = job.items.filter((item) => item.status === "pending" || item.status === "processing");
+
+  // Work on two items at a time, like a small worker pool
+  active.slice(0, 2).forEach((item) => {
+    item.status = "processing";
+    item.progress = Math.min(100, (item.progress || 0) + 15 + Math.round(Math.random() * 20));
+
+    if (item.progress >= 100) {
+      if (item.input_key.includes("fail")) {
+        item.status = "failed";
+        item.error = "Mock processing failure";
+      } else {
+        item.status = "completed";
+        item.output_key = `sketches/${item.input_key.split("/").pop()}`;
+        item.download_url = `http://localhost:${port}/mock/sketch/${encodeURIComponent(item.output_key)}`;
+      }
+    }
+
+    broadcast(job, { type: "item", job_id: job.id, item: { ...item } });
+  });
+
+  if (job.status === "queued") {
+    job.status = "running";
+    broadcast(job, { type: "status", job_id: job.id, status: job.status });
+  }
+
+  if (active.length === 0) {
+    finish(
+      job,
+      job.items.every((item) => item.status === "failed")
+        ? "failed"
+        : job.items.every((item) => item.status === "failed" || item.status === "cancelled")
+          ? "cancelled"
+          : "completed"
+    );
+  }
+};
+
+const createJob = (inputKeys) => {
+  const job = {
+    id: randomUUID(),
+    status: "queued",
+    items: inputKeys.map((key) => ({ input_key: key, status: "pending", progress: 0 })),
+    subscribers: new Set(),
+  };
+  job.timer = setInterval(() => tick(job), 400);
+  jobs.set(job.id, job);
+  return job;
+};
+
+// Cancel the given items, or every unfinished item when no keys are passed
+const cancelItems = (job, inputKeys) => {
+  job.items.forEach((item) => {
+    const unfinished = item.status === "pending" || item.status === "processing";
+    if (unfinished && (!inputKeys || inputKeys.includes(item.input_key))) {
+      item.status = "cancelled";
+      broadcast(job, { type: "item", job_id: job.id, item: { ...item } });
+    }
+  });
+  if (!inputKeys) finish(job, "cancelled");
+};
+
+const withCors = (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", req.headers.origin || "*");
+  res.setHeader("Access-Control-Allow-Credentials", "true");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(data || "{}"));
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+// Minimal server-to-client WebSocket text frame
+const encodeFrame = (text) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x81, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const subscribe = (job, send, close) => {
+  send({ type: "snapshot", job: snapshot(job) });
+  job.subscribers.add(send);
+
+  const timer = dropAfter ? setTimeout(close, dropAfter) : null;
+  return () => {
+    if (timer) clearTimeout(timer);
+    job.subscribers.delete(send);
+  };
+};
+
+const server = createServer(async (req, res) => {
+  withCors(req, res);
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const match = url.pathname.match(/^\/api\/file\/jobs\/([^/]+)(\/events)?$/);
+  const action = url.pathname.match(/^\/api\/file\/jobs\/([^/]+)\/(cancel|pause|resume)$/);
+
+  if (req.method === "POST" && url.pathname === "/api/file/jobs") {
+    const body = await readBody(req);
+    const job = createJob(body.input_keys || []);
+    sendJson(res, 200, { job_id: job.id, status: job.status, total: job.items.length });
+    return;
+  }
+
+  if (req.method === "POST" && action) {
+    const job = jobs.get(action[1]);
+    if (!job) return sendJson(res, 404, { detail: "Job not found" });
+
+    const body = await readBody(req);
+    if (action[2] === "cancel") {
+      cancelItems(job, body.input_keys);
+    } else if (["queued", "running", "paused"].includes(job.status)) {
+      job.status = action[2] === "pause" ? "paused" : "running";
+      broadcast(job, { type: "status", job_id: job.id, status: job.status });
+    }
+    sendJson(res, 200, snapshot(job));
+    return;
+  }
+
+  if (req.method === "GET" && match && !match[2]) {
+    const job = jobs.get(match[1]);
+    if (!job) return sendJson(res, 404, { detail: "Job not found" });
+    sendJson(res, 200, snapshot(job));
+    return;
+  }
+
+  if (req.method === "GET" && match && match[2]) {
+    const job = jobs.get(match[1]);
+    if (!job || args["no-sse"]) return sendJson(res, 404, { detail: "Not available" });
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const unsubscribe = subscribe(
+      job,
+      (message) => res.write(`data: ${JSON.stringify(message)}\n\n`),
+      () => res.end()
+    );
+    req.on("close", unsubscribe);
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname.startsWith("/mock/sketch/")) {
+    const name = decodeURIComponent(url.pathname.slice("/mock/sketch/".length));
+    res.writeHead(200, { "Content-Type": "image/svg+xml" });
+    res.end(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="100%" height="100%" fill="#f8f8f8"/>` +
+        `<path d="M64 400 L200 180 L300 320 L448 96" stroke="#333" stroke-width="6" fill="none"/>` +
+        `<text x="50%" y="480" text-anchor="middle" font-family="sans-serif" font-size="20" fill="#666">${name.replace(/[<&>]/g, "")}</text></svg>`
+    );
+    return;
+  }
+
+  sendJson(res, 404, { detail: "Not found" });
+});
+
+server.on("upgrade", (req, socket) => {
+  const match = req.url.match(/^\/api\/file\/jobs\/([^/?]+)\/ws/);
+  const job = match && jobs.get(match[1]);
+
+  if (!job || args["no-ws"]) {
+    socket.end("HTTP/1.1 503 Service Unavailable\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1")
+    .update(req.headers["sec-websocket-key"] + "258EAFA5-E914-47DA-95CA-C5AB0DC85B11")
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const close = () => {
+    if (!socket.destroyed) socket.end(Buffer.from([0x88, 0x00]));
+  };
+  const unsubscribe = subscribe(job, (message) => socket.write(encodeFrame(JSON.stringify(message))), close);
+
+  // Only the close opcode from the client matters here
+  socket.on("data", (data) => {
+    if ((data[0] & 0x0f) === 0x8) close();
+  });
+  socket.on("close", unsubscribe);
+  socket.on("error", unsubscribe);
+});
+
+server.listen(port, () => {
+  console.log(`Mock progress server listening on http://localhost:${port}`);
+});
@@ -19,6 +19,10 @@ const authApi = {
       return api.get<User>('/auth/me');
     },
 
+    getSubscription: async () => {
+      return api.get<Subscription>('/auth/subscription');
+    },
+
     resendVerificationEmail: async (email: string) => {
       return api.post('/auth/resend-verification-email', { email });
     },
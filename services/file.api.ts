@@ -1,4 +1,5 @@
 import api from "@/lib/axios";
+import { SketchMethod, SketchConfig, normalizeSketchConfig } from "@/types";
 
 // Upload URL interfaces
 export interface GetPresignedUploadUrlInput {
@@ -32,26 +33,92 @@ export interface GetPresignedUploadUrlResponse {
     expires_in: number;
 }
 
+// Multipart upload interfaces
+export interface CreateMultipartUploadInput extends GetPresignedUploadUrlInput {
+    file_size: number;
+    part_size: number;
+}
+
+export interface CreateMultipartUploadResponse {
+    upload_id: string;
+    key: string;
+    file_url: string;
+}
+
+export interface GetMultipartPartUrlsInput {
+    key: string;
+    upload_id: string;
+    part_numbers: number[];
+}
+
+export interface MultipartPartUrl {
+    part_number: number;
+    presigned_url: string;
+}
+
+export interface GetMultipartPartUrlsResponse {
+    urls: MultipartPartUrl[];
+    expires_in: number;
+}
+
+export interface MultipartUploadPart {
+    part_number: number;
+    etag: string;
+}
+
+export interface CompleteMultipartUploadInput {
+    key: string;
+    upload_id: string;
+    parts: MultipartUploadPart[];
+}
+
+export interface CompleteMultipartUploadResponse {
+    key: string;
+    // Combined ETag of the assembled object, e.g. "<md5-of-part-md5s>-<part count>"
+    etag: string;
+    file_url: string;
+}
+
+export interface AbortMultipartUploadInput {
+    key: string;
+    upload_id: string;
+}
+
+// Remote image import interfaces
+export interface FetchRemoteImageInput {
+    // http(s) URL of the image, fetched by the backend so CORS does not apply
+    url: string;
+}
+
 // Sketch processing interfaces
 export interface ProcessImageInput {
     input_key: string;
-    method?: 'basic' | 'advanced' | 'artistic';
-    config?: Record<string, any>;
+    method?: SketchMethod;
+    config?: SketchConfig;
 }
 
 export interface ProcessImageResponse {
     success: boolean;
     input_key?: string;
     output_key?: string;
-    method?: string;
+    method?: SketchMethod;
     download_url?: string;
     error?: string;
 }
 
+// Settings for one image of a batch, overriding the batch's method and config
+export interface BatchProcessItem {
+    input_key: string;
+    method?: SketchMethod;
+    config?: SketchConfig;
+}
+
 export interface BatchProcessInput {
     input_keys: string[];
-    method?: 'basic' | 'advanced' | 'artistic';
-    config?: Record<string, any>;
+    method?: SketchMethod;
+    config?: SketchConfig;
+    // Only sent when some images differ from the batch settings
+    items?: BatchProcessItem[];
     max_concurrency?: number;
 }
 
@@ -63,6 +130,48 @@ export interface BatchProcessResponse {
     results: ProcessImageResponse[];
 }
 
+// Asynchronous job interfaces
+export type ProcessJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProcessJobItem {
+    input_key: string;
+    status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+    progress?: number;
+    output_key?: string;
+    download_url?: string;
+    error?: string;
+}
+
+export interface SubmitProcessJobResponse {
+    job_id: string;
+    status: ProcessJobStatus;
+    total: number;
+}
+
+export interface ProcessJobResponse {
+    job_id: string;
+    status: ProcessJobStatus;
+    total: number;
+    completed: number;
+    failed: number;
+    items: ProcessJobItem[];
+    error?: string;
+}
+
+export interface CancelProcessJobInput {
+    // Cancel only these items; the whole job is cancelled when omitted
+    input_keys?: string[];
+}
+
+const normalizeBatchInput = (input: BatchProcessInput): BatchProcessInput => ({
+    ...input,
+    config: input.config && normalizeSketchConfig(input.config),
+    items: input.items?.map(item => ({
+        ...item,
+        config: item.config && normalizeSketchConfig(item.config)
+    }))
+});
+
 export const fileApi = {
     // File upload endpoints
     getPresignedUploadUrl: async (input: GetPresignedUploadUrlInput) => {
@@ -78,13 +187,62 @@ export const fileApi = {
         return api.post<ConfirmFileUploadResponse>(`/file/confirm-upload`, input);
     },
     
+    // Multipart upload endpoints
+    createMultipartUpload: async (input: CreateMultipartUploadInput) => {
+        const payload = {
+            ...input,
+            file_type: input.file_type || 'application/octet-stream'
+        };
+        return api.post<CreateMultipartUploadResponse>(`/file/multipart`, payload);
+    },
+    
+    getMultipartPartUrls: async (input: GetMultipartPartUrlsInput) => {
+        return api.post<GetMultipartPartUrlsResponse>(`/file/multipart/part-urls`, input);
+    },
+    
+    completeMultipartUpload: async (input: CompleteMultipartUploadInput) => {
+        return api.post<CompleteMultipartUploadResponse>(`/file/multipart/complete`, input);
+    },
+    
+    abortMultipartUpload: async (input: AbortMultipartUploadInput) => {
+        return api.post<{ success: boolean }>(`/file/multipart/abort`, input);
+    },
+    
+    // Remote image import endpoints
+    fetchRemoteImage: async (input: FetchRemoteImageInput, signal?: AbortSignal) => {
+        return api.post<Blob>(`/file/fetch-url`, input, { responseType: 'blob', signal });
+    },
+    
     // Sketch processing endpoints
-    processImage: async (input: ProcessImageInput) => {
-        return api.post<ProcessImageResponse>(`/file/process`, input);
+    processImage: async (input: ProcessImageInput, signal?: AbortSignal) => {
+        return api.post<ProcessImageResponse>(`/file/process`, {
+            ...input,
+            config: input.config && normalizeSketchConfig(input.config)
+        }, { signal });
+    },
+    
+    batchProcessImages: async (input: BatchProcessInput, signal?: AbortSignal) => {
+        return api.post<BatchProcessResponse>(`/file/batch-process`, normalizeBatchInput(input), { signal });
+    },
+    
+    submitProcessJob: async (input: BatchProcessInput, signal?: AbortSignal) => {
+        return api.post<SubmitProcessJobResponse>(`/file/jobs`, normalizeBatchInput(input), { signal });
+    },
+    
+    getProcessJob: async (jobId: string, signal?: AbortSignal) => {
+        return api.get<ProcessJobResponse>(`/file/jobs/${jobId}`, { signal });
+    },
+    
+    cancelProcessJob: async (jobId: string, input: CancelProcessJobInput = {}) => {
+        return api.post<ProcessJobResponse>(`/file/jobs/${jobId}/cancel`, input);
+    },
+    
+    pauseProcessJob: async (jobId: string) => {
+        return api.post<ProcessJobResponse>(`/file/jobs/${jobId}/pause`);
     },
     
-    batchProcessImages: async (input: BatchProcessInput) => {
-        return api.post<BatchProcessResponse>(`/file/batch-process`, input);
+    resumeProcessJob: async (jobId: string) => {
+        return api.post<ProcessJobResponse>(`/file/jobs/${jobId}/resume`);
     },
     
     getDownloadUrl: async (key: string, expiresIn?: number) => {
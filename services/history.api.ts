@@ -0,0 +1,40 @@
+import api from "@/lib/axios";
+import { SketchHistoryEntry, SketchMethod } from "@/types";
+
+export interface ListHistoryInput {
+    // Matched against file names
+    search?: string;
+    methods?: SketchMethod[];
+    // Cursor of the last entry on the previous page, newest first
+    before?: string;
+    before_id?: string;
+    limit?: number;
+}
+
+export interface ListHistoryResponse {
+    items: SketchHistoryEntry[];
+    has_more: boolean;
+}
+
+export const historyApi = {
+    listHistory: async (input: ListHistoryInput = {}, signal?: AbortSignal) => {
+        return api.get<ListHistoryResponse>(`/history`, {
+            params: {
+                search: input.search || undefined,
+                methods: input.methods?.length ? input.methods.join(',') : undefined,
+                before: input.before,
+                before_id: input.before_id,
+                limit: input.limit
+            },
+            signal
+        });
+    },
+
+    saveHistoryEntry: async (entry: SketchHistoryEntry) => {
+        return api.put<SketchHistoryEntry>(`/history/${entry.id}`, entry);
+    },
+
+    deleteHistoryEntry: async (id: string) => {
+        return api.delete<{ success: boolean }>(`/history/${id}`);
+    }
+}
@@ -1,3 +1,5 @@
 export * from './auth.api';
 export * from './file.api';
-export * from './upload.api';
\ No newline at end of file
+export * from './upload.api';
+export * from './preset.api';
+export * from './history.api';
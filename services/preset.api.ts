@@ -0,0 +1,23 @@
+import api from "@/lib/axios";
+import { SketchMethod, SketchConfig, SketchPreset } from "@/types";
+
+export interface SavePresetInput {
+    id: string;
+    name: string;
+    method: SketchMethod;
+    config: SketchConfig;
+}
+
+export const presetApi = {
+    listPresets: async () => {
+        return api.get<SketchPreset[]>(`/presets`);
+    },
+
+    savePreset: async (input: SavePresetInput) => {
+        return api.put<SketchPreset>(`/presets/${input.id}`, input);
+    },
+
+    deletePreset: async (id: string) => {
+        return api.delete<{ success: boolean }>(`/presets/${id}`);
+    }
+}
@@ -4,12 +4,17 @@ export enum SketchMethod {
   ARTISTIC = 'artistic'
 }
 
+// Blur filters the backend and the local engine both implement
+export const BLUR_TYPES = ['gaussian', 'median', 'bilateral'] as const;
+
+export type BlurType = (typeof BLUR_TYPES)[number];
+
 export interface SketchConfig {
   sigma_s?: number;
   sigma_r?: number;
   shade_factor?: number;
   kernel_size?: number;
-  blur_type?: 'gaussian' | 'median' | 'bilateral';
+  blur_type?: BlurType;
   edge_preserve?: boolean;
   texture_enhance?: boolean;
   contrast?: number;
@@ -17,6 +22,219 @@ export interface SketchConfig {
   smoothing_factor?: number;
 }
 
+export type SketchConfigKey = keyof SketchConfig;
+
+type NumberConfigKey = { [K in SketchConfigKey]-?: NonNullable<SketchConfig[K]> extends number ? K : never }[SketchConfigKey];
+type BooleanConfigKey = { [K in SketchConfigKey]-?: NonNullable<SketchConfig[K]> extends boolean ? K : never }[SketchConfigKey];
+
+interface SketchParameterBase {
+  label: string;
+  description: string;
+  // Methods whose pipeline reads this parameter
+  methods: SketchMethod[];
+}
+
+export interface NumberSketchParameter extends SketchParameterBase {
+  type: 'number';
+  key: NumberConfigKey;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  // Decimal places shown next to the slider
+  precision: number;
+}
+
+export interface BooleanSketchParameter extends SketchParameterBase {
+  type: 'boolean';
+  key: BooleanConfigKey;
+  default: boolean;
+}
+
+export interface SelectSketchParameter extends SketchParameterBase {
+  type: 'select';
+  key: 'blur_type';
+  options: { value: BlurType; label: string }[];
+  default: BlurType;
+}
+
+export type SketchParameter = NumberSketchParameter | BooleanSketchParameter | SelectSketchParameter;
+
+const ALL_METHODS = [SketchMethod.BASIC, SketchMethod.ADVANCED, SketchMethod.ARTISTIC];
+const SHADED_METHODS = [SketchMethod.ADVANCED, SketchMethod.ARTISTIC];
+
+export const SKETCH_METHOD_OPTIONS: { value: SketchMethod; label: string; description: string }[] = [
+  { value: SketchMethod.BASIC, label: 'Basic', description: 'Fast dodge-and-burn pencil lines' },
+  { value: SketchMethod.ADVANCED, label: 'Advanced', description: 'Edge-aware smoothing with pencil shading' },
+  { value: SketchMethod.ARTISTIC, label: 'Artistic', description: 'Advanced shading with a hand-drawn texture' },
+];
+
+/**
+ * Every SketchConfig parameter with its range, default and the methods it applies to.
+ * Option UIs, validation and the API client all read from this list.
+ */
+export const SKETCH_PARAMETERS: SketchParameter[] = [
+  {
+    type: 'boolean',
+    key: 'edge_preserve',
+    label: 'Edge Preservation',
+    description: 'Preserve edges for more natural-looking sketches',
+    methods: SHADED_METHODS,
+    default: true,
+  },
+  {
+    type: 'boolean',
+    key: 'texture_enhance',
+    label: 'Texture Enhancement',
+    description: 'Enhance texture details in the sketch',
+    methods: SHADED_METHODS,
+    default: true,
+  },
+  {
+    type: 'select',
+    key: 'blur_type',
+    label: 'Blur Type',
+    description: 'Different blur types affect the sketch texture',
+    methods: ALL_METHODS,
+    options: [
+      { value: 'gaussian', label: 'Gaussian' },
+      { value: 'median', label: 'Median' },
+      { value: 'bilateral', label: 'Bilateral' },
+    ],
+    default: 'gaussian',
+  },
+  {
+    type: 'number',
+    key: 'kernel_size',
+    label: 'Blur Size',
+    description: 'Size of the blur kernel, larger values give thicker lines',
+    methods: ALL_METHODS,
+    min: 3,
+    max: 51,
+    step: 2,
+    default: 21,
+    precision: 0,
+  },
+  {
+    type: 'number',
+    key: 'contrast',
+    label: 'Contrast',
+    description: 'Adjust the contrast of the sketch',
+    methods: ALL_METHODS,
+    min: 0.5,
+    max: 3,
+    step: 0.1,
+    default: 1.5,
+    precision: 1,
+  },
+  {
+    type: 'number',
+    key: 'brightness',
+    label: 'Brightness',
+    description: 'Lighten or darken the whole sketch',
+    methods: ALL_METHODS,
+    min: -50,
+    max: 50,
+    step: 1,
+    default: 0,
+    precision: 0,
+  },
+  {
+    type: 'number',
+    key: 'shade_factor',
+    label: 'Shade Intensity',
+    description: 'Controls the pencil shade intensity',
+    methods: SHADED_METHODS,
+    min: 0.01,
+    max: 0.5,
+    step: 0.01,
+    default: 0.05,
+    precision: 2,
+  },
+  {
+    type: 'number',
+    key: 'smoothing_factor',
+    label: 'Smoothing',
+    description: 'Adjust the smoothness of the sketch',
+    methods: SHADED_METHODS,
+    min: 0,
+    max: 1,
+    step: 0.1,
+    default: 0.9,
+    precision: 1,
+  },
+  {
+    type: 'number',
+    key: 'sigma_s',
+    label: 'Spatial Smoothing',
+    description: 'How far edge-preserving smoothing reaches, in pixels',
+    methods: SHADED_METHODS,
+    min: 1,
+    max: 200,
+    step: 1,
+    default: 60,
+    precision: 0,
+  },
+  {
+    type: 'number',
+    key: 'sigma_r',
+    label: 'Edge Sensitivity',
+    description: 'Lower values keep more edges when smoothing',
+    methods: SHADED_METHODS,
+    min: 0.01,
+    max: 1,
+    step: 0.01,
+    default: 0.07,
+    precision: 2,
+  },
+];
+
+export const DEFAULT_SKETCH_CONFIG = Object.fromEntries(
+  SKETCH_PARAMETERS.map(parameter => [parameter.key, parameter.default])
+) as Required<SketchConfig>;
+
+/**
+ * Look up the descriptor of a config parameter
+ */
+export const getSketchParameter = <K extends SketchConfigKey>(key: K) =>
+  SKETCH_PARAMETERS.find(parameter => parameter.key === key) as Extract<SketchParameter, { key: K }>;
+
+/**
+ * Parameters that affect the given method, in display order
+ */
+export const getSketchParameters = (method: SketchMethod) =>
+  SKETCH_PARAMETERS.filter(parameter => parameter.methods.includes(method));
+
+/**
+ * Clamp numbers to their range, snap kernel sizes to odd values and drop unknown keys
+ */
+export const normalizeSketchConfig = (config: SketchConfig): SketchConfig => {
+  const normalized: SketchConfig = {};
+
+  SKETCH_PARAMETERS.forEach(parameter => {
+    const value = config[parameter.key];
+    if (value === undefined || value === null) return;
+
+    if (parameter.type === 'number' && typeof value === 'number' && Number.isFinite(value)) {
+      let clamped = Math.min(parameter.max, Math.max(parameter.min, value));
+      if (parameter.key === 'kernel_size') {
+        clamped = Math.round(clamped);
+        if (clamped % 2 === 0) clamped += 1;
+      }
+      normalized[parameter.key] = clamped;
+    } else if (parameter.type === 'boolean' && typeof value === 'boolean') {
+      normalized[parameter.key] = value;
+    } else if (parameter.type === 'select' && parameter.options.some(option => option.value === value)) {
+      normalized[parameter.key] = value as BlurType;
+    }
+  });
+
+  return normalized;
+};
+
+// Where a sketch is rendered: in the browser, on the backend, or picked per file by size
+export type ProcessingMode = 'local' | 'server' | 'auto';
+
 export interface SketchFile {
   id: string;
   originalKey: string;
@@ -26,11 +244,63 @@ export interface SketchFile {
   name: string;
   size: number;
   method: SketchMethod;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  // Settings the sketch was requested with
+  config?: SketchConfig;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   error?: string;
+  source?: 'local' | 'server';
+  // Set for files processed through an asynchronous job
+  jobId?: string;
+  progress?: number;
+  // SHA-256 of the source image, used to reuse earlier results
+  contentHash?: string;
+  // The sketch came from the result cache instead of being processed again
+  cached?: boolean;
+  createdAt?: string;
+  // Id of the output shown, once the original has been reprocessed; the file id until then
+  versionId?: string;
+  // Other outputs of the same original, oldest first, besides the one shown
+  versions?: SketchVersion[];
+}
+
+// One output of a file's original, kept so it can be shown again later
+export interface SketchVersion {
+  id: string;
+  method: SketchMethod;
+  config?: SketchConfig;
+  sketchKey?: string;
+  sketchUrl?: string;
+  createdAt: string;
+  cached?: boolean;
 }
 
 export interface SketchProcessingOptions {
   method: SketchMethod;
   config?: SketchConfig;
 }
+
+export interface SketchPreset {
+  id: string;
+  name: string;
+  method: SketchMethod;
+  config: SketchConfig;
+  builtIn?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A completed server-side sketch, kept so it can be found and downloaded again later
+export interface SketchHistoryEntry {
+  // Same as the SketchFile id it was recorded from
+  id: string;
+  name: string;
+  size: number;
+  method: SketchMethod;
+  config: SketchConfig;
+  originalKey: string;
+  sketchKey: string;
+  contentHash?: string;
+  jobId?: string;
+  createdAt: string;
+  completedAt: string;
+}
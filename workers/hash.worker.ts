@@ -0,0 +1,38 @@
+import { createSha256, toHex } from '@/lib/sha256';
+import type { HashWorkerRequest, HashWorkerResponse } from '@/lib/file-hash';
+
+// Files up to this size are hashed natively in one buffer, larger ones are streamed
+const SUBTLE_MAX_SIZE = 64 * 1024 * 1024;
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const respond = (message: HashWorkerResponse) => {
+  self.postMessage(message);
+};
+
+const hash = async (source: Blob) => {
+  if (source.size <= SUBTLE_MAX_SIZE && self.crypto?.subtle) {
+    const digest = await self.crypto.subtle.digest('SHA-256', await source.arrayBuffer());
+    return toHex(new Uint8Array(digest));
+  }
+
+  const sha256 = createSha256();
+  for (let offset = 0; offset < source.size; offset += CHUNK_SIZE) {
+    const chunk = await source.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    sha256.update(new Uint8Array(chunk));
+  }
+  return toHex(sha256.digest());
+};
+
+self.onmessage = async (event: MessageEvent<HashWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    respond({ id: request.id, success: true, hash: await hash(request.source) });
+  } catch (error) {
+    respond({
+      id: request.id,
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to hash file',
+    });
+  }
+};
@@ -0,0 +1,63 @@
+import { renderSketchPixels } from '@/lib/sketch-engine';
+import type { SketchWorkerRequest, SketchWorkerResponse } from '@/lib/sketch-worker';
+
+const respond = (message: SketchWorkerResponse) => {
+  self.postMessage(message);
+};
+
+const render = async (request: SketchWorkerRequest) => {
+  const startedAt = performance.now();
+  const bitmap = await createImageBitmap(request.source);
+
+  // Downscale before rendering when a maximum dimension is requested
+  const longEdge = Math.max(bitmap.width, bitmap.height);
+  const scale = request.maxDimension && longEdge > request.maxDimension
+    ? request.maxDimension / longEdge
+    : 1;
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('2D canvas is not available in this browser');
+  }
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const imageData = context.getImageData(0, 0, width, height);
+  const pixels = renderSketchPixels(
+    { data: imageData.data, width, height },
+    { method: request.method, config: request.config, scale: scale * (request.sourceScale ?? 1) }
+  );
+  imageData.data.set(pixels);
+  context.putImageData(imageData, 0, 0);
+
+  const blob = await canvas.convertToBlob({
+    type: request.outputType || 'image/png',
+    quality: request.quality,
+  });
+
+  return {
+    blob,
+    width,
+    height,
+    duration: performance.now() - startedAt,
+  };
+};
+
+self.onmessage = async (event: MessageEvent<SketchWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    const result = await render(request);
+    respond({ id: request.id, success: true, ...result });
+  } catch (error) {
+    respond({
+      id: request.id,
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to render sketch',
+    });
+  }
+};
@@ -0,0 +1,51 @@
+import { traceBitmap } from '@/lib/trace';
+import type { TraceWorkerRequest, TraceWorkerResponse } from '@/lib/trace-worker';
+
+const respond = (message: TraceWorkerResponse) => {
+  self.postMessage(message);
+};
+
+const trace = async (request: TraceWorkerRequest) => {
+  const startedAt = performance.now();
+  const bitmap = await createImageBitmap(request.source);
+
+  // Large sketches are traced at a reduced size and the paths scaled back up
+  const longEdge = Math.max(bitmap.width, bitmap.height);
+  const scale = request.maxDimension && longEdge > request.maxDimension
+    ? request.maxDimension / longEdge
+    : 1;
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('2D canvas is not available in this browser');
+  }
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const imageData = context.getImageData(0, 0, width, height);
+  const result = traceBitmap(
+    { data: imageData.data, width, height },
+    { ...request.options, scale }
+  );
+
+  return { ...result, duration: performance.now() - startedAt };
+};
+
+self.onmessage = async (event: MessageEvent<TraceWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    const result = await trace(request);
+    respond({ id: request.id, success: true, ...result });
+  } catch (error) {
+    respond({
+      id: request.id,
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to trace sketch',
+    });
+  }
+};